@@ -1,21 +1,83 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import {
   PayoutConfig,
+  Paytable,
+  PaytableHand,
+  PaytableLine,
+  Rank,
+  DEFAULT_PAYOUT_CONFIG,
+  validatePayoutConfig,
+  validatePaytable,
+  paytableLineLabel,
+  optimizePaytable,
+  PaylineConstraint,
+  PaytableOptimization,
+  GameRulesConfig,
+  Settlement,
+  DEFAULT_GAME_RULES,
   SimulationResult,
   HandDistributionStats,
-  runSimulationInWorkers
+  SimulationSummary,
+  BaseGameBreakdown,
+  BaseGameResolution,
+  PayoutComparison,
+  StrategySolution,
+  PlayerStrategy,
+  thresholdStrategy,
+  runSimulationInWorkers,
+  runSimulationInWorkersToPrecision,
+  hardwareConcurrency,
+  createPauseController,
+  PauseController,
+  SimulationSnapshot,
+  PrecisionOutcome,
+  PrecisionTargets,
+  HandRecord,
+  HandTraceOptions,
+  BONUS_BETS,
+  performExactAnalysis,
+  solveOptimalStrategy,
+  replayHand,
+  RNG_ALGORITHMS,
+  RngAlgorithm,
+  RunRng,
+  RngSelfTestResult,
+  runRngAlgorithmSelfTest,
+  RNG_SELF_TEST_SIGNIFICANCE,
+  SessionConfig,
+  SessionSummary,
+  DEFAULT_SESSION_CONFIG,
+  DEFAULT_SESSIONS,
+  validateSessionConfig,
+  simulateSessions
 } from './lib/simulation'
+import { usePaytablePresets } from '@/hooks/use-paytable-presets'
 import { toast } from 'sonner'
 import { Toaster } from '@/components/ui/sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { Progress } from '@/components/ui/progress'
-import { Play, ChartBar, TrendDown, TrendUp, Gear, Lightning } from '@phosphor-icons/react'
+import { ConvergenceChart } from '@/components/ConvergenceChart'
+import { HandTraceViewer } from '@/components/HandTraceViewer'
+import { FlushOutcomeHeatmap, FlushShapeHeatmap } from '@/components/FlushHeatmap'
+import { SessionHistogram } from '@/components/SessionHistogram'
+import { Play, Pause, Stop, ChartBar, TrendDown, TrendUp, Gear, Lightning } from '@phosphor-icons/react'
+
+// What a seeded run needs to deal any of its hands again
+interface ReplayableRun {
+  seed: string | number
+  algorithm: Exclude<RngAlgorithm, 'crypto'>
+  numHands: number // Hands in the run, numbered from 0
+  payoutConfig: PayoutConfig
+  strategy: PlayerStrategy
+  gameRules: GameRulesConfig
+}
 
 interface PerformanceMetrics {
   totalDuration: number
@@ -29,33 +91,188 @@ interface PerformanceMetrics {
 const suits = ['♠', '♥', '♦', '♣']
 const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K']
 const highCardNames = ['Jack', 'Queen', 'King', 'Ace']
+const faceRanks: { [name: string]: number } = { J: 11, Q: 12, K: 13, A: 14 }
+
+type StrategyMode = 'threshold' | 'optimal' | 'custom'
+
+// Run a fixed number of hands, or until every targeted bet is precise enough
+type StopRule = 'hands' | 'precision'
+
+const precisionBetTypes = ['Base Game (Ante + Play)', ...BONUS_BETS.map(b => b.betType)]
+
+// Each traced hand is kept in full, so the viewer's sample is capped
+const MAX_TRACED_HANDS = 10000
+
+const resolutionLabels: { [outcome in BaseGameResolution]: string } = {
+  fold: 'Fold',
+  dealerNotQualified: 'Dealer does not qualify',
+  playerWins: 'Player wins',
+  dealerWins: 'Dealer wins',
+  push: 'Push'
+}
+
+const rngName = (algorithm: RngAlgorithm) => RNG_ALGORITHMS.find(info => info.id === algorithm)?.name ?? algorithm
+
+const bonusPaytables: { key: keyof PayoutConfig; name: string }[] = [
+  { key: 'flushRush', name: 'Flush Rush Bonus' },
+  { key: 'superFlushRush', name: 'Super Flush Rush Bonus' }
+]
+
+const paytableSelectClass = 'flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50'
+
+const settlementOptions: { value: Settlement; label: string }[] = [
+  { value: 'win', label: 'Pays even money' },
+  { value: 'push', label: 'Pushes' },
+  { value: 'lose', label: 'Loses' }
+]
+
+// Form state of one custom strategy rule; minRanks is text such as "10-8-6" or "J"
+interface CustomRuleForm {
+  flushLength: number
+  minRanks: string
+  playMultiple: string // 'max', or a multiple of the Ante ('0' folds)
+}
+
+const defaultCustomRules: CustomRuleForm[] = [
+  { flushLength: 2, minRanks: '', playMultiple: '0' },
+  { flushLength: 3, minRanks: '9', playMultiple: 'max' },
+  { flushLength: 4, minRanks: '', playMultiple: 'max' },
+  { flushLength: 5, minRanks: '', playMultiple: 'max' },
+  { flushLength: 6, minRanks: '', playMultiple: 'max' },
+  { flushLength: 7, minRanks: '', playMultiple: 'max' }
+]
+
+const rankWords: { [rank: number]: string } = {
+  2: 'two', 3: 'three', 4: 'four', 5: 'five', 6: 'six', 7: 'seven', 8: 'eight',
+  9: 'nine', 10: 'ten', 11: 'jack', 12: 'queen', 13: 'king', 14: 'ace'
+}
+
+const settlementText = (settlement: Settlement) => settlementOptions.find(o => o.value === settlement)!.label.toLowerCase()
+
+// The rules as configured: the Play maximums, dealer qualifier and settlements come from rules and
+// each bonus bet's paying lines from payouts, so the text always describes what is simulated
+function describeGameRules(rules: GameRulesConfig, payouts: PayoutConfig): string {
+  // Flush lengths 2-7 grouped by their maximum Play multiple
+  const playLimits: { from: number; to: number; multiple: number }[] = []
+  for (let length = 2; length <= 7; length++) {
+    const multiple = rules.maxPlayMultiples[Math.min(length, rules.maxPlayMultiples.length - 1)]
+    const last = playLimits[playLimits.length - 1]
+    if (last && last.multiple === multiple) last.to = length
+    else playLimits.push({ from: length, to: length, multiple })
+  }
+  const { minFlushLength, minHighCard } = rules.dealerQualifier
+  const bonusLines = bonusPaytables.map(({ key, name }) => {
+    const table = payouts[key]
+    const lines = table.lines.map(line => `${paytableLineLabel(table, line)} ${line.payout} to 1`).join(', ')
+    return `• ${name}: Pays on the player's best ${table.hand === 'flush' ? 'flush' : 'straight flush'}: ${lines}`
+  })
+
+  return `I Luv Suits Poker is a seven (7) card poker game in which players play against the dealer with a seven card hand. The goal is to get a higher ranking flush with more flush cards than the dealer.
+
+Game Rules (as configured):
+• Player makes an Ante wager and receives 7 cards
+• Player must choose either to make a Play wager or to fold and lose their Ante:
+  - More flush cards = higher maximum play wager
+${playLimits.map(({ from, to, multiple }) => `    - ${from === to ? from : `${from} - ${to}`} flush cards = up to ${multiple} x Ante`).join('\n')}
+  - Player may fold their hand instead
+• Dealer needs ${minFlushLength}-card ${rankWords[minHighCard] ?? minHighCard}-high flush minimum to qualify
+• If dealer doesn't qualify: Ante ${settlementText(rules.dealerNotQualified.ante)}, Play ${settlementText(rules.dealerNotQualified.play)}
+• If player's hand beats dealer's qualifying hand, player wins
+• If dealer qualifies and player wins: Both Ante and Play pay even money
+• If dealer qualifies and dealer wins: Both Ante and Play lose
+• If dealer qualifies and ties: Ante ${settlementText(rules.tie.ante)}, Play ${settlementText(rules.tie.play)}
+
+Bonus Bets (optional):
+${bonusLines.join('\n')}
+• Bonus bets win/lose regardless of base game outcome`
+}
+
+// Converts the custom strategy form into a PlayerStrategy
+function buildCustomStrategy(rules: CustomRuleForm[]): PlayerStrategy {
+  return {
+    type: 'rules',
+    rules: rules.map(rule => ({
+      flushLength: rule.flushLength,
+      minRanks: rule.minRanks
+        .split(/[-,\s]+/)
+        .filter(token => token !== '')
+        .map(token => faceRanks[token.toUpperCase()] ?? parseInt(token))
+        .filter(rank => !isNaN(rank)),
+      ...(rule.playMultiple === 'max' ? {} : { playMultiple: parseInt(rule.playMultiple) })
+    }))
+  }
+}
 
 function App() {
   const [isSimulating, setIsSimulating] = useState(false)
   const [simulationProgress, setSimulationProgress] = useState(0)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isPartial, setIsPartial] = useState(false)
+  const [convergence, setConvergence] = useState<SimulationSnapshot[]>([])
+  // Controls of the run in progress
+  const abortRef = useRef<AbortController | null>(null)
+  const pauseRef = useRef<PauseController | null>(null)
   const [results, setResults] = useState<SimulationResult[]>([])
+  const [exactSummary, setExactSummary] = useState<SimulationSummary | null>(null)
+  const [comparisons, setComparisons] = useState<PayoutComparison[]>([])
+  const [exactComparisons, setExactComparisons] = useState<{ [name: string]: SimulationSummary }>({})
   const [showConfig, setShowConfig] = useState(false)
+  const [showRulesConfig, setShowRulesConfig] = useState(false)
+  const [showOptimizer, setShowOptimizer] = useState(false)
+  const [showSessions, setShowSessions] = useState(false)
+  const [sessionForm, setSessionForm] = useState({
+    bankroll: String(DEFAULT_SESSION_CONFIG.bankroll),
+    tableMinimum: String(DEFAULT_SESSION_CONFIG.tableMinimum),
+    handsPerHour: String(DEFAULT_SESSION_CONFIG.handsPerHour),
+    hours: String(DEFAULT_SESSION_CONFIG.hours),
+    sessions: String(DEFAULT_SESSIONS)
+  })
+  const [sessionSideBets, setSessionSideBets] = useState<string[]>(DEFAULT_SESSION_CONFIG.sideBets)
+  const [isRunningSessions, setIsRunningSessions] = useState(false)
+  const [sessionProgress, setSessionProgress] = useState(0)
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null)
+  const sessionAbortRef = useRef<AbortController | null>(null)
+  const [optimizerBet, setOptimizerBet] = useState<keyof PayoutConfig>('flushRush')
+  const [optimizerEdge, setOptimizerEdge] = useState({ min: '4.5', max: '5.5' })
+  const [optimizerConstraints, setOptimizerConstraints] = useState<PaylineConstraint[]>([])
+  const [optimizerMonotonic, setOptimizerMonotonic] = useState(true)
+  const [optimization, setOptimization] = useState<PaytableOptimization | null>(null)
   const [handDistribution, setHandDistribution] = useState<HandDistributionStats | null>(null)
+  const [baseGame, setBaseGame] = useState<BaseGameBreakdown | null>(null)
+  const [flushSide, setFlushSide] = useState<'player' | 'dealer'>('player')
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics | null>(null)
   const [numHands, setNumHands] = useState(1000000)
   const [minThreeCardFlushRank, setMinThreeCardFlushRank] = useState(9)
+  const [strategyMode, setStrategyMode] = useState<StrategyMode>('threshold')
+  const [customRules, setCustomRules] = useState<CustomRuleForm[]>(defaultCustomRules)
+  const [strategySolution, setStrategySolution] = useState<StrategySolution | null>(null)
+  const [stopRule, setStopRule] = useState<StopRule>('hands')
+  // Max standard error per bet in percentage points, as typed; empty leaves a bet untargeted
+  const [precisionTargets, setPrecisionTargets] = useState<{ [betType: string]: string }>({ 'Super Flush Rush Bonus': '0.05' })
+  const [precisionOutcome, setPrecisionOutcome] = useState<PrecisionOutcome | null>(null)
+  // Hand trace settings as typed: how many hands to record, sampling every Nth hand
+  const [traceEnabled, setTraceEnabled] = useState(false)
+  const [traceForm, setTraceForm] = useState({ maxHands: '100', every: '1' })
+  const [handRecords, setHandRecords] = useState<HandRecord[]>([])
+  const [replayableRun, setReplayableRun] = useState<ReplayableRun | null>(null)
+  const [replayIndex, setReplayIndex] = useState('')
+  const [replayedHand, setReplayedHand] = useState<HandRecord | null>(null)
   const [seedValue, setSeedValue] = useState<string | number | undefined>(undefined)
+  // Empty for the default: Philox with a seed, crypto without
+  const [rngAlgorithm, setRngAlgorithm] = useState<RngAlgorithm | ''>('')
+  const [runRng, setRunRng] = useState<RunRng | null>(null)
+  const [rngSelfTest, setRngSelfTest] = useState<RngSelfTestResult | null>(null)
   
-  const [payoutConfig, setPayoutConfig] = useState<PayoutConfig>({
-    flushRush: {
-      sevenCard: 100,
-      sixCard: 20,
-      fiveCard: 10,
-      fourCard: 2
-    },
-    superFlushRush: {
-      sevenCardStraight: 500,
-      sixCardStraight: 200,
-      fiveCardStraight: 100,
-      fourCardStraight: 50,
-      threeCardStraight: 9
-    }
-  })
+  const [gameRulesConfig, setGameRulesConfig] = useState<GameRulesConfig>(DEFAULT_GAME_RULES)
+
+  const [payoutConfig, setPayoutConfig] = useState<PayoutConfig>(DEFAULT_PAYOUT_CONFIG)
+  const payoutErrors = validatePayoutConfig(payoutConfig)
+  const { presets, savePreset, deletePreset, importPresets, exportUserPresets } = usePaytablePresets()
+  const [selectedPresetName, setSelectedPresetName] = useState(presets[0].name)
+  const [newPresetName, setNewPresetName] = useState('')
+  const [comparePresetNames, setComparePresetNames] = useState<string[]>([])
+  const presetFileInput = useRef<HTMLInputElement>(null)
+  const selectedPreset = presets.find(preset => preset.name === selectedPresetName)
 
   const getMinFlushDisplayText = () => {
     if (minThreeCardFlushRank === 0) {
@@ -67,63 +284,182 @@ function App() {
     return minThreeCardFlushRank.toString()
   }
 
-  const gameRules = `I Luv Suits Poker is a seven (7) card poker game in which players play against the dealer with a seven card hand. The goal is to get a higher ranking flush with more flush cards than the dealer.
+  const gameRules = describeGameRules(gameRulesConfig, payoutConfig)
 
-Game Rules:
-• Player makes an Ante wager and receives 7 cards
-• Player must choose either to make a Play wager or to fold and lose their Ante:
-  - More flush cards = higher maximum play wager
-    - 2 - 4 flush cards = up to 1 x Ante
-    - 5 flush cards = up to 2 x Ante
-    - 6 - 7 flush cards = up to 3 x Ante
-  - Player may fold their hand instead
-• Dealer needs 3-card nine-high flush minimum to qualify
-• If dealer doesn't qualify: Ante pays even money, Play pushes
-• If player's hand beats dealer's qualifying hand, player wins
-• If dealer qualifies and player wins: Both Ante and Play pay even money
-• If dealer qualifies and dealer wins: Both Ante and Play lose
+  const replayHandUI = () => {
+    if (!replayableRun) return
+    const { seed, algorithm, numHands, payoutConfig, strategy, gameRules } = replayableRun
+    const handIndex = Number(replayIndex)
+    if (!Number.isInteger(handIndex) || handIndex < 0 || handIndex >= numHands) {
+      toast.error(`Enter a hand number from 0 to ${(numHands - 1).toLocaleString()}`)
+      return
+    }
+    try {
+      setReplayedHand(replayHand(seed, handIndex, payoutConfig, strategy, gameRules, algorithm))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err))
+    }
+  }
 
-Bonus Bets (optional):
-• Flush Rush Bonus: Pays based on player's flush cards (4+ to win)
-• Super Flush Rush Bonus: Pays based on player's straight flush cards (3+ to win)
-• Bonus bets win/lose regardless of base game outcome`
+  // Runs on the main thread; 50,000 shuffles take well under a second
+  const runRngSelfTestUI = () => {
+    const algorithm = rngAlgorithm || (seedValue !== undefined ? 'philox' : 'crypto')
+    const result = runRngAlgorithmSelfTest(algorithm, seedValue)
+    setRngSelfTest(result)
+    if (result.passed) toast.success(`${rngName(algorithm)} passed every self-test`)
+    else toast.error(`${rngName(algorithm)} failed a self-test`)
+  }
 
   const simulateHandsUI = async () => {
+    if (payoutErrors.length > 0) {
+      toast.error(`Fix the payout configuration first: ${payoutErrors[0]}`)
+      setShowConfig(true)
+      return
+    }
+    const targets: PrecisionTargets = {}
+    if (stopRule === 'precision') {
+      for (const [betType, text] of Object.entries(precisionTargets)) {
+        if (text.trim() === '') continue
+        const target = Number(text)
+        if (!(target > 0)) {
+          toast.error(`The standard error target for ${betType} must be a positive number`)
+          return
+        }
+        targets[betType] = target
+      }
+      if (Object.keys(targets).length === 0) {
+        toast.error('Set a standard error target for at least one bet')
+        return
+      }
+    }
+    let trace: HandTraceOptions | undefined
+    if (traceEnabled) {
+      const maxHands = Number(traceForm.maxHands)
+      const every = Number(traceForm.every)
+      if (!Number.isInteger(maxHands) || maxHands < 1 || maxHands > MAX_TRACED_HANDS || !Number.isInteger(every) || every < 1) {
+        toast.error(`Record between 1 and ${MAX_TRACED_HANDS.toLocaleString()} hands, sampling every whole number of hands`)
+        return
+      }
+      trace = { maxHands, every }
+    }
     setIsSimulating(true)
     setSimulationProgress(0)
+    setIsPaused(false)
+    setIsPartial(false)
+    abortRef.current = new AbortController()
+    pauseRef.current = createPauseController()
     setResults([])
+    setConvergence([])
+    setExactSummary(null)
+    setComparisons([])
+    setExactComparisons({})
     setHandDistribution(null)
+    setBaseGame(null)
     setPerformanceMetrics(null)
+    setStrategySolution(null)
+    setPrecisionOutcome(null)
+    setHandRecords([])
+    setReplayableRun(null)
+    setReplayedHand(null)
+    setRunRng(null)
     const startTime = performance.now()
-    const hw = typeof navigator !== 'undefined' && (navigator as any).hardwareConcurrency ? (navigator as any).hardwareConcurrency : 4
+    const hw = hardwareConcurrency()
     const workerCount = Math.max(1, Math.min(hw, numHands))
     
     try {
-      const summary = await runSimulationInWorkers(
-        numHands,
-        payoutConfig,
-        minThreeCardFlushRank,
-        (progress) => setSimulationProgress(progress),
-        seedValue,
-        workerCount
-      )
+      // The solver compares the optimal table against the custom rules, or else the threshold rule
+      const baseline = strategyMode === 'custom' ? buildCustomStrategy(customRules) : thresholdStrategy(minThreeCardFlushRank)
+      const solution = solveOptimalStrategy(baseline, gameRulesConfig)
+      const strategy = strategyMode === 'optimal' ? solution.strategy : baseline
+      // The exact returns are known up front, so the convergence chart can show them as targets
+      setExactSummary(performExactAnalysis(payoutConfig, strategy, gameRulesConfig))
+      // Keep about 200 points for the convergence chart, plus the final totals
+      let lastSnapshotHands = 0
+      const recordSnapshot = (snapshot: SimulationSnapshot) => {
+        if (snapshot.hands < numHands && snapshot.hands - lastSnapshotHands < numHands / 200) return
+        lastSnapshotHands = snapshot.hands
+        setConvergence(prev => [...prev, snapshot])
+      }
+      const comparisonConfigs = presets
+        .filter(preset => comparePresetNames.includes(preset.name))
+        .map(({ name, payoutConfig }) => ({ name, payoutConfig }))
+      const onProgress = (progress: number) => setSimulationProgress(progress)
+      const runOptions = {
+        comparisons: comparisonConfigs,
+        signal: abortRef.current.signal,
+        pause: pauseRef.current,
+        onSnapshot: recordSnapshot,
+        trace,
+        rngAlgorithm: rngAlgorithm || undefined
+      }
+      const summary = stopRule === 'precision'
+        ? await runSimulationInWorkersToPrecision(
+          targets,
+          numHands,
+          payoutConfig,
+          strategy,
+          gameRulesConfig,
+          onProgress,
+          seedValue,
+          workerCount,
+          undefined,
+          runOptions
+        )
+        : await runSimulationInWorkers(
+          numHands,
+          payoutConfig,
+          strategy,
+          gameRulesConfig,
+          onProgress,
+          seedValue,
+          workerCount,
+          undefined,
+          runOptions
+        )
       const endTime = performance.now()
       const duration = (endTime - startTime) / 1000
-      
+      const handsProcessed = summary.handDistribution.totalHands
+      if (summary.partial) toast.info(`Simulation cancelled after ${handsProcessed.toLocaleString()} hands; showing partial results`)
+      else if (summary.precision?.met) toast.success(`Standard error targets met after ${handsProcessed.toLocaleString()} hands`)
+      else if (summary.precision) toast.info(`Hand cap of ${numHands.toLocaleString()} reached before every standard error target was met`)
+
+      setIsPartial(!!summary.partial)
       setResults(summary.results)
+      setComparisons(summary.comparisons ?? [])
+      setExactComparisons(Object.fromEntries(comparisonConfigs.map(c => [c.name, performExactAnalysis(c.payoutConfig, strategy, gameRulesConfig)])))
+      setStrategySolution(solution)
       setHandDistribution(summary.handDistribution)
+      setBaseGame(summary.baseGame)
+      setPrecisionOutcome(summary.precision ?? null)
+      setHandRecords(summary.handRecords ?? [])
+      setRunRng(summary.rng ?? null)
+      // Any seeded generator can deal a hand again, including one given a random seed by the run
+      if (summary.rng && summary.rng.algorithm !== 'crypto' && summary.rng.seed !== undefined) {
+        // A run to precision that met its targets ends early; otherwise any hand up to the count set can be asked about
+        const runHands = summary.precision?.met ? handsProcessed : numHands
+        setReplayableRun({
+          seed: summary.rng.seed,
+          algorithm: summary.rng.algorithm,
+          numHands: runHands,
+          payoutConfig,
+          strategy,
+          gameRules: gameRulesConfig
+        })
+      }
       setPerformanceMetrics({
         totalDuration: duration,
-        handsPerSecond: numHands / duration,
+        handsPerSecond: handsProcessed / duration,
         workerCount,
         hardwareConcurrency: hw,
-        handsProcessed: numHands
+        handsProcessed
       })
       setSimulationProgress(100)
     } catch (err) {
       console.error('Simulation worker error', err)
       toast.error(String(err ?? 'Unknown error'))
     } finally {
+      abortRef.current = null
+      pauseRef.current = null
       setTimeout(() => {
         setIsSimulating(false)
         setSimulationProgress(0)
@@ -131,6 +467,64 @@ Bonus Bets (optional):
     }
   }
 
+  // Sessions run on the main thread, yielding between batches so progress and Stop stay responsive
+  const simulateSessionsUI = async () => {
+    if (payoutErrors.length > 0) {
+      toast.error(`Fix the payout configuration first: ${payoutErrors[0]}`)
+      setShowConfig(true)
+      return
+    }
+    const config: SessionConfig = {
+      bankroll: Number(sessionForm.bankroll),
+      tableMinimum: Number(sessionForm.tableMinimum),
+      sideBets: sessionSideBets,
+      handsPerHour: Number(sessionForm.handsPerHour),
+      hours: Number(sessionForm.hours)
+    }
+    const errors = validateSessionConfig(config)
+    const sessions = Number(sessionForm.sessions)
+    if (!Number.isInteger(sessions) || sessions < 1) errors.push('the number of sessions must be a positive whole number')
+    if (errors.length > 0) {
+      toast.error(`Fix the session settings first: ${errors[0]}`)
+      return
+    }
+    setIsRunningSessions(true)
+    setSessionProgress(0)
+    setSessionSummary(null)
+    sessionAbortRef.current = new AbortController()
+    try {
+      const baseline = strategyMode === 'custom' ? buildCustomStrategy(customRules) : thresholdStrategy(minThreeCardFlushRank)
+      const strategy = strategyMode === 'optimal' ? solveOptimalStrategy(baseline, gameRulesConfig).strategy : baseline
+      const summary = await simulateSessions(
+        sessions,
+        config,
+        payoutConfig,
+        strategy,
+        gameRulesConfig,
+        setSessionProgress,
+        seedValue,
+        sessionAbortRef.current.signal,
+        rngAlgorithm || undefined
+      )
+      if (summary.partial) toast.info(`Session simulation cancelled after ${summary.sessions.toLocaleString()} sessions; showing partial results`)
+      setSessionSummary(summary)
+    } catch (err) {
+      console.error('Session simulation error', err)
+      toast.error(String(err ?? 'Unknown error'))
+    } finally {
+      sessionAbortRef.current = null
+      setIsRunningSessions(false)
+    }
+  }
+
+  const togglePause = () => {
+    const pause = pauseRef.current
+    if (!pause) return
+    if (pause.paused) pause.resume()
+    else pause.pause()
+    setIsPaused(pause.paused)
+  }
+
   const formatPercentage = (value: number) => {
     const color = value >= 0 ? 'text-green-600' : 'text-red-600'
     const icon = value >= 0 ? <TrendUp className="w-4 h-4" /> : <TrendDown className="w-4 h-4" />
@@ -142,12 +536,108 @@ Bonus Bets (optional):
     )
   }
 
-  const updatePayoutConfig = (category: 'flushRush' | 'superFlushRush', key: string, value: number) => {
+  const exactReturns = new Map((exactSummary?.results ?? []).map(r => [r.betType, r.expectedReturn]))
+  const exactResults = new Map((exactSummary?.results ?? []).map(r => [r.betType, r]))
+  const exactComparisonReturns = new Map(Object.entries(exactComparisons).map(([name, summary]) => [
+    name,
+    new Map(summary.results.map(r => [r.betType, r.expectedReturn]))
+  ]))
+  const exactThreeCardPlayEV = new Map((exactSummary?.handDistribution.threeCardFlushByHighCard ?? []).map(s => [s.highCard, s.playEV]))
+
+  // Lowest 3-card flush high card whose exact EV of playing beats folding
+  const recommendedMinRank = exactSummary?.handDistribution.threeCardFlushByHighCard.find(s => s.playEV > s.foldEV)?.highCard
+
+  const rankName = (rank: number) => rank >= 11 ? highCardNames[rank - 11] : rank.toString()
+
+  const applyPreset = (name: string) => {
+    setSelectedPresetName(name)
+    const preset = presets.find(p => p.name === name)
+    if (preset) setPayoutConfig(preset.payoutConfig)
+  }
+
+  const saveCurrentPreset = () => {
+    const name = newPresetName.trim()
+    if (payoutErrors.length > 0) {
+      toast.error(`Fix the payout configuration first: ${payoutErrors[0]}`)
+      return
+    }
+    const errors = savePreset(name, payoutConfig)
+    if (errors.length > 0) {
+      toast.error(errors[0])
+      return
+    }
+    setSelectedPresetName(name)
+    setNewPresetName('')
+    toast.success(`Saved preset "${name}"`)
+  }
+
+  const downloadPresets = () => {
+    const url = URL.createObjectURL(new Blob([exportUserPresets()], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'paytable-presets.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importPresetFile = async (file: File) => {
+    const errors = importPresets(await file.text())
+    if (errors.length > 0) {
+      toast.error(`Could not import ${file.name}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}`)
+    } else {
+      toast.success(`Imported presets from ${file.name}`)
+    }
+  }
+
+  const updatePaytable = (bet: keyof PayoutConfig, update: (paytable: Paytable) => Paytable) => {
+    setSelectedPresetName('')
     setPayoutConfig(prev => ({
       ...prev,
-      [category]: {
-        ...prev[category],
-        [key]: value
+      [bet]: update(prev[bet])
+    }))
+  }
+
+  const updatePaytableLine = (bet: keyof PayoutConfig, index: number, changes: Partial<PaytableLine>) => {
+    updatePaytable(bet, paytable => ({
+      ...paytable,
+      lines: paytable.lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    }))
+  }
+
+  const updateOptimizerConstraint = (index: number, changes: Partial<PaylineConstraint>) => {
+    setOptimizerConstraints(prev => {
+      const next = [...prev]
+      next[index] = { ...prev[index], ...changes }
+      return next
+    })
+  }
+
+  const runOptimizer = () => {
+    const minEdge = parseFloat(optimizerEdge.min)
+    const maxEdge = parseFloat(optimizerEdge.max)
+    if (isNaN(minEdge) || isNaN(maxEdge) || minEdge > maxEdge) {
+      toast.error('Enter a house edge range with the minimum at or below the maximum')
+      return
+    }
+    const template = payoutConfig[optimizerBet]
+    const templateErrors = validatePaytable(template)
+    if (templateErrors.length > 0) {
+      toast.error(`Fix the paytable first: ${templateErrors[0]}`)
+      return
+    }
+    setOptimization(optimizePaytable(template, {
+      targetReturn: { min: -maxEdge, max: -minEdge },
+      constraints: template.lines.map((_, i) => optimizerConstraints[i] ?? {}),
+      monotonic: optimizerMonotonic
+    }))
+  }
+
+  const updateSettlement = (situation: 'dealerNotQualified' | 'tie', wager: 'ante' | 'play', value: Settlement) => {
+    setGameRulesConfig(prev => ({
+      ...prev,
+      [situation]: {
+        ...prev[situation],
+        [wager]: value
       }
     }))
   }
@@ -184,7 +674,7 @@ Bonus Bets (optional):
             {/* Error toasts are shown via Sonner; no persistent error card needed */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="num-hands">Number of Hands</Label>
+                <Label htmlFor="num-hands">{stopRule === 'precision' ? 'Hand Cap' : 'Number of Hands'}</Label>
                 <Input
                   id="num-hands"
                   type="number"
@@ -192,10 +682,12 @@ Bonus Bets (optional):
                   max="100000000"
                   step="1000"
                   value={numHands}
-                  onChange={(e) => setNumHands(parseInt(e.target.value) || 1000000)}
+                  onChange={(e) => setNumHands(Math.max(1, parseInt(e.target.value) || 1000000))}
                   disabled={isSimulating}
                 />
-                <p className="text-xs text-muted-foreground">1,000 - 100,000,000 hands</p>
+                <p className="text-xs text-muted-foreground">
+                  1,000 - 100,000,000 hands{stopRule === 'precision' && '; the run stops here if the targets are not met'}
+                </p>
               </div>
               
               <div className="space-y-2">
@@ -221,20 +713,212 @@ Bonus Bets (optional):
                 </select>
                 <p className="text-xs text-muted-foreground">Fold 3-card flush if high card is lower</p>
               </div>
-              
+
+              <div className="space-y-2">
+                <Label htmlFor="play-strategy">Play Strategy</Label>
+                <select
+                  id="play-strategy"
+                  value={strategyMode}
+                  onChange={(e) => setStrategyMode(e.target.value as StrategyMode)}
+                  disabled={isSimulating}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <option value="threshold">Min 3-card flush high card (Default)</option>
+                  <option value="optimal">Optimal (solver)</option>
+                  <option value="custom">Custom rules</option>
+                </select>
+                <p className="text-xs text-muted-foreground">Optimal plays the EV-maximizing fold / 1x / 2x / 3x for every flush</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="stop-rule">Run Until</Label>
+                <select
+                  id="stop-rule"
+                  value={stopRule}
+                  onChange={(e) => setStopRule(e.target.value as StopRule)}
+                  disabled={isSimulating}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <option value="hands">All hands are played (Default)</option>
+                  <option value="precision">Standard error targets are met</option>
+                </select>
+                <p className="text-xs text-muted-foreground">Precision runs play batches of hands until every targeted bet is precise enough</p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="seed">Random Seed (optional)</Label>
                 <Input
                   id="seed"
                   type="text"
-                  placeholder="leave empty for secure RNG"
+                  placeholder={rngAlgorithm === 'crypto' ? 'crypto runs cannot be seeded' : 'leave empty for secure RNG'}
                   value={seedValue as any}
                   onChange={(e) => setSeedValue(e.target.value || undefined)}
-                  disabled={isSimulating}
+                  disabled={isSimulating || rngAlgorithm === 'crypto'}
                 />
                 <p className="text-xs text-muted-foreground">Provide a string or number to get deterministic runs</p>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rng-algorithm">Random Number Generator</Label>
+                <div className="flex gap-2">
+                  <select
+                    id="rng-algorithm"
+                    value={rngAlgorithm}
+                    onChange={(e) => {
+                      setRngAlgorithm(e.target.value as RngAlgorithm | '')
+                      setRngSelfTest(null)
+                    }}
+                    disabled={isSimulating}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <option value="">Philox if seeded, else crypto (Default)</option>
+                    {RNG_ALGORITHMS.map(info => <option key={info.id} value={info.id}>{info.name}</option>)}
+                  </select>
+                  <Button variant="outline" onClick={runRngSelfTestUI} disabled={isSimulating}>Self-Test</Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {rngAlgorithm
+                    ? RNG_ALGORITHMS.find(info => info.id === rngAlgorithm)!.description
+                    : 'Seeded generators without a seed are given a random one, shown with the results'}
+                </p>
+              </div>
             </div>
+
+            {rngSelfTest && (
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center gap-2">
+                  Self-Test of {rngName(rngSelfTest.algorithm!)}
+                  <Badge variant={rngSelfTest.passed ? 'default' : 'destructive'}>{rngSelfTest.passed ? 'Passed' : 'Failed'}</Badge>
+                </h4>
+                <p className="text-xs text-muted-foreground">
+                  {rngSelfTest.hands.toLocaleString()} decks shuffled as in a run{rngSelfTest.seed !== undefined && ` (seed ${rngSelfTest.seed})`}; a test fails below p = {RNG_SELF_TEST_SIGNIFICANCE}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Test</TableHead>
+                      <TableHead className="text-right">Statistic</TableHead>
+                      <TableHead className="text-right">p-value</TableHead>
+                      <TableHead className="text-right">Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rngSelfTest.tests.map(test => (
+                      <TableRow key={test.name}>
+                        <TableCell>{test.name}</TableCell>
+                        <TableCell className="text-right font-mono">{test.statistic.toFixed(3)}</TableCell>
+                        <TableCell className="text-right font-mono">{test.pValue.toFixed(4)}</TableCell>
+                        <TableCell className="text-right">{test.passed ? 'Pass' : 'Fail'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {stopRule === 'precision' && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Precision Targets</h4>
+                <p className="text-xs text-muted-foreground">
+                  Max standard error of each bet's return, in percentage points; leave a bet empty to ignore it
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {precisionBetTypes.map(betType => (
+                    <div key={betType} className="space-y-2">
+                      <Label htmlFor={`precision-${betType}`}>{betType}</Label>
+                      <Input
+                        id={`precision-${betType}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="no target"
+                        value={precisionTargets[betType] ?? ''}
+                        onChange={(e) => setPrecisionTargets(prev => ({ ...prev, [betType]: e.target.value }))}
+                        disabled={isSimulating}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="trace-enabled"
+                  checked={traceEnabled}
+                  onCheckedChange={(checked) => setTraceEnabled(checked === true)}
+                  disabled={isSimulating}
+                />
+                <Label htmlFor="trace-enabled" className="font-normal">Record hands to audit in the Hand Trace viewer</Label>
+              </div>
+              {traceEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="trace-max-hands">Hands to Record</Label>
+                    <Input
+                      id="trace-max-hands"
+                      type="number"
+                      min="1"
+                      max={MAX_TRACED_HANDS}
+                      value={traceForm.maxHands}
+                      onChange={(e) => setTraceForm(prev => ({ ...prev, maxHands: e.target.value }))}
+                      disabled={isSimulating}
+                    />
+                    <p className="text-xs text-muted-foreground">Up to {MAX_TRACED_HANDS.toLocaleString()} hands, the same on any number of workers</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="trace-every">Record Every Nth Hand</Label>
+                    <Input
+                      id="trace-every"
+                      type="number"
+                      min="1"
+                      value={traceForm.every}
+                      onChange={(e) => setTraceForm(prev => ({ ...prev, every: e.target.value }))}
+                      disabled={isSimulating}
+                    />
+                    <p className="text-xs text-muted-foreground">Records every Nth hand of the whole run, from hand 0; 1 records the run's first hands</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {strategyMode === 'custom' && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Custom Strategy Rules</h4>
+                <p className="text-xs text-muted-foreground">
+                  Minimum flush to play, compared card by card (e.g. "10-8-6" or "J"); empty plays every flush of that length
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {customRules.map((rule, index) => (
+                    <div key={rule.flushLength} className="space-y-2">
+                      <Label htmlFor={`rule-min-${rule.flushLength}`}>{rule.flushLength} Card Flush</Label>
+                      <Input
+                        id={`rule-min-${rule.flushLength}`}
+                        type="text"
+                        placeholder="any"
+                        value={rule.minRanks}
+                        onChange={(e) => setCustomRules(prev => prev.map((r, i) => i === index ? { ...r, minRanks: e.target.value } : r))}
+                        disabled={isSimulating}
+                      />
+                      <select
+                        aria-label={`${rule.flushLength} card flush Play wager`}
+                        value={rule.playMultiple}
+                        onChange={(e) => setCustomRules(prev => prev.map((r, i) => i === index ? { ...r, playMultiple: e.target.value } : r))}
+                        disabled={isSimulating}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        <option value="max">Max Play</option>
+                        <option value="1">1x</option>
+                        <option value="2">2x</option>
+                        <option value="3">3x</option>
+                        <option value="0">Fold</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <Button 
               onClick={simulateHandsUI} 
@@ -260,8 +944,20 @@ Bonus Bets (optional):
                 </div>
                 <Progress value={simulationProgress} className="w-full" />
                 <p className="text-xs text-muted-foreground text-center">
-                  Processing {numHands.toLocaleString()} hands... ({Math.floor((simulationProgress / 100) * numHands).toLocaleString()} completed)
+                  {stopRule === 'precision'
+                    ? `${isPaused ? 'Paused' : 'Processing'} until the standard error targets are met (up to ${numHands.toLocaleString()} hands)...`
+                    : `${isPaused ? 'Paused at' : 'Processing'} ${numHands.toLocaleString()} hands... (${Math.floor((simulationProgress / 100) * numHands).toLocaleString()} completed)`}
                 </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={togglePause} disabled={!pauseRef.current}>
+                    {isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                    {isPaused ? 'Resume' : 'Pause'}
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => abortRef.current?.abort()} disabled={!abortRef.current}>
+                    <Stop className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
             )}
 
@@ -273,6 +969,36 @@ Bonus Bets (optional):
               <Gear className="w-4 h-4 mr-2" />
               Payouts
             </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-2"
+              onClick={() => setShowRulesConfig(!showRulesConfig)}
+            >
+              <Gear className="w-4 h-4 mr-2" />
+              Rules
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-2"
+              onClick={() => setShowOptimizer(!showOptimizer)}
+            >
+              <Gear className="w-4 h-4 mr-2" />
+              Optimizer
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-2"
+              onClick={() => setShowSessions(!showSessions)}
+            >
+              <Gear className="w-4 h-4 mr-2" />
+              Sessions
+            </Button>
           </CardContent>
         </Card>
 
@@ -280,103 +1006,614 @@ Bonus Bets (optional):
           <Card>
             <CardHeader>
               <CardTitle>Payout Configuration</CardTitle>
-              <CardDescription>Adjust bonus bet payouts (odds-to-1)</CardDescription>
+              <CardDescription>
+                Each bonus bet pays the first line whose condition the player's hand meets (odds-to-1)
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div>
-                <h4 className="font-medium mb-3">Flush Rush Bonus</h4>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-4">
+                <h4 className="font-medium">Presets</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="flush-7">7 Card Flush</Label>
-                    <Input
-                      id="flush-7"
-                      type="number"
-                      value={payoutConfig.flushRush.sevenCard}
-                      onChange={(e) => updatePayoutConfig('flushRush', 'sevenCard', parseInt(e.target.value) || 0)}
-                    />
+                    <Label htmlFor="paytable-preset">Paytable Preset</Label>
+                    <select
+                      id="paytable-preset"
+                      value={selectedPresetName}
+                      onChange={(e) => applyPreset(e.target.value)}
+                      disabled={isSimulating}
+                      className={paytableSelectClass}
+                    >
+                      <option value="">Custom</option>
+                      {presets.map(preset => (
+                        <option key={preset.name} value={preset.name}>
+                          {preset.name}{preset.builtIn ? ' (built-in)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {selectedPreset?.description && (
+                      <p className="text-xs text-muted-foreground">{selectedPreset.description}</p>
+                    )}
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="flush-6">6 Card Flush</Label>
-                    <Input
-                      id="flush-6"
-                      type="number"
-                      value={payoutConfig.flushRush.sixCard}
-                      onChange={(e) => updatePayoutConfig('flushRush', 'sixCard', parseInt(e.target.value) || 0)}
-                    />
+                    <Label htmlFor="preset-name">Save Current Paytables As</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="preset-name"
+                        type="text"
+                        placeholder="Preset name"
+                        value={newPresetName}
+                        onChange={(e) => setNewPresetName(e.target.value)}
+                        disabled={isSimulating}
+                      />
+                      <Button variant="outline" size="sm" onClick={saveCurrentPreset} disabled={isSimulating || newPresetName.trim() === ''}>
+                        Save
+                      </Button>
+                    </div>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="flush-5">5 Card Flush</Label>
-                    <Input
-                      id="flush-5"
-                      type="number"
-                      value={payoutConfig.flushRush.fiveCard}
-                      onChange={(e) => updatePayoutConfig('flushRush', 'fiveCard', parseInt(e.target.value) || 0)}
-                    />
+                    <Label>Library</Label>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          deletePreset(selectedPresetName)
+                          setSelectedPresetName('')
+                        }}
+                        disabled={isSimulating || !selectedPreset || selectedPreset.builtIn}
+                      >
+                        Delete
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={downloadPresets} disabled={isSimulating}>
+                        Export
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => presetFileInput.current?.click()} disabled={isSimulating}>
+                        Import
+                      </Button>
+                      <input
+                        ref={presetFileInput}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          if (file) importPresetFile(file)
+                          e.target.value = ''
+                        }}
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="flush-4">4 Card Flush</Label>
-                    <Input
-                      id="flush-4"
-                      type="number"
-                      value={payoutConfig.flushRush.fourCard}
-                      onChange={(e) => updatePayoutConfig('flushRush', 'fourCard', parseInt(e.target.value) || 0)}
-                    />
+                </div>
+                <div className="space-y-2">
+                  <Label>Compare Against</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {presets.map(preset => (
+                      <div key={preset.name} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`compare-${preset.name}`}
+                          checked={comparePresetNames.includes(preset.name)}
+                          onCheckedChange={(checked) => setComparePresetNames(prev =>
+                            checked ? [...prev, preset.name] : prev.filter(name => name !== preset.name)
+                          )}
+                          disabled={isSimulating}
+                        />
+                        <Label htmlFor={`compare-${preset.name}`} className="font-normal">{preset.name}</Label>
+                      </div>
+                    ))}
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    Checked presets are scored on the same hands as the current paytables, so their differences carry paired confidence intervals
+                  </p>
                 </div>
               </div>
 
               <Separator />
 
-              <div>
-                <h4 className="font-medium mb-3">Super Flush Rush Bonus</h4>
-                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="straight-7">7 Card Straight Flush</Label>
-                    <Input
-                      id="straight-7"
-                      type="number"
-                      value={payoutConfig.superFlushRush.sevenCardStraight}
-                      onChange={(e) => updatePayoutConfig('superFlushRush', 'sevenCardStraight', parseInt(e.target.value) || 0)}
-                    />
+              {bonusPaytables.map(({ key, name }, betIndex) => (
+                <div key={key}>
+                  {betIndex > 0 && <Separator className="mb-6" />}
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium">{name}</h4>
+                    <select
+                      aria-label={`${name} hand`}
+                      value={payoutConfig[key].hand}
+                      onChange={(e) => updatePaytable(key, paytable => ({ ...paytable, hand: e.target.value as PaytableHand }))}
+                      disabled={isSimulating}
+                      className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <option value="flush">Pays on best flush</option>
+                      <option value="straightFlush">Pays on best straight flush</option>
+                    </select>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="straight-6">6 Card Straight Flush</Label>
-                    <Input
-                      id="straight-6"
-                      type="number"
-                      value={payoutConfig.superFlushRush.sixCardStraight}
-                      onChange={(e) => updatePayoutConfig('superFlushRush', 'sixCardStraight', parseInt(e.target.value) || 0)}
-                    />
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cards</TableHead>
+                        <TableHead>Min High Card</TableHead>
+                        <TableHead>Max High Card</TableHead>
+                        <TableHead>Pays (to 1)</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {payoutConfig[key].lines.map((line, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <select
+                              aria-label={`${name} line ${index + 1} cards`}
+                              value={line.length}
+                              onChange={(e) => updatePaytableLine(key, index, { length: parseInt(e.target.value) })}
+                              disabled={isSimulating}
+                              className={paytableSelectClass}
+                            >
+                              {[7, 6, 5, 4, 3, 2, 1].map(length => (
+                                <option key={length} value={length}>{length}</option>
+                              ))}
+                            </select>
+                          </TableCell>
+                          {(['minHighCard', 'maxHighCard'] as const).map(field => (
+                            <TableCell key={field}>
+                              <select
+                                aria-label={`${name} line ${index + 1} ${field === 'minHighCard' ? 'minimum' : 'maximum'} high card`}
+                                value={line[field] ?? ''}
+                                onChange={(e) => updatePaytableLine(key, index, { [field]: e.target.value === '' ? undefined : parseInt(e.target.value) as Rank })}
+                                disabled={isSimulating}
+                                className={paytableSelectClass}
+                              >
+                                <option value="">Any</option>
+                                {[14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2].map(rank => (
+                                  <option key={rank} value={rank}>{rankName(rank)}</option>
+                                ))}
+                              </select>
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            <Input
+                              aria-label={`${name} line ${index + 1} payout`}
+                              type="number"
+                              min="0"
+                              value={line.payout}
+                              onChange={(e) => updatePaytableLine(key, index, { payout: parseFloat(e.target.value) || 0 })}
+                              disabled={isSimulating}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updatePaytable(key, paytable => ({ ...paytable, lines: paytable.lines.filter((_, i) => i !== index) }))}
+                              disabled={isSimulating}
+                            >
+                              Remove
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updatePaytable(key, paytable => ({ ...paytable, lines: [...paytable.lines, { length: 3, payout: 1 }] }))}
+                      disabled={isSimulating}
+                    >
+                      Add Line
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updatePaytable(key, () => DEFAULT_PAYOUT_CONFIG[key])}
+                      disabled={isSimulating}
+                    >
+                      Reset to Standard Paytable
+                    </Button>
                   </div>
+                </div>
+              ))}
+
+              {payoutErrors.length > 0 && (
+                <div className="text-sm text-red-600 space-y-1">
+                  {payoutErrors.map(error => <p key={error}>{error}</p>)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {showOptimizer && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Paytable Optimizer</CardTitle>
+              <CardDescription>
+                Searches round payouts for the current paytable's lines that give a target house edge, using exact line probabilities
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="optimizer-bet">Bonus Bet</Label>
+                  <select
+                    id="optimizer-bet"
+                    value={optimizerBet}
+                    onChange={(e) => {
+                      setOptimizerBet(e.target.value as keyof PayoutConfig)
+                      setOptimizerConstraints([])
+                      setOptimization(null)
+                    }}
+                    className={paytableSelectClass}
+                  >
+                    {bonusPaytables.map(({ key, name }) => (
+                      <option key={key} value={key}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="optimizer-min-edge">Min House Edge (%)</Label>
+                  <Input
+                    id="optimizer-min-edge"
+                    type="number"
+                    step="0.1"
+                    value={optimizerEdge.min}
+                    onChange={(e) => setOptimizerEdge(prev => ({ ...prev, min: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="optimizer-max-edge">Max House Edge (%)</Label>
+                  <Input
+                    id="optimizer-max-edge"
+                    type="number"
+                    step="0.1"
+                    value={optimizerEdge.max}
+                    onChange={(e) => setOptimizerEdge(prev => ({ ...prev, max: e.target.value }))}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Checkbox
+                    id="optimizer-monotonic"
+                    checked={optimizerMonotonic}
+                    onCheckedChange={(checked) => setOptimizerMonotonic(checked === true)}
+                  />
+                  <Label htmlFor="optimizer-monotonic" className="font-normal">Stronger hands pay at least as much</Label>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Payline</TableHead>
+                    <TableHead className="text-right">Current Pays</TableHead>
+                    <TableHead>Lock</TableHead>
+                    <TableHead>Min Pays</TableHead>
+                    <TableHead>Max Pays</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payoutConfig[optimizerBet].lines.map((line, index) => {
+                    const constraint = optimizerConstraints[index] ?? {}
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{paytableLineLabel(payoutConfig[optimizerBet], line)}</TableCell>
+                        <TableCell className="text-right">{line.payout} to 1</TableCell>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Lock line ${index + 1}`}
+                            checked={constraint.locked ?? false}
+                            onCheckedChange={(checked) => updateOptimizerConstraint(index, { locked: checked === true })}
+                          />
+                        </TableCell>
+                        {(['minPayout', 'maxPayout'] as const).map(field => (
+                          <TableCell key={field}>
+                            <Input
+                              aria-label={`Line ${index + 1} ${field === 'minPayout' ? 'minimum' : 'maximum'} payout`}
+                              type="number"
+                              min="1"
+                              placeholder="any"
+                              value={constraint[field] ?? ''}
+                              onChange={(e) => updateOptimizerConstraint(index, { [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                              disabled={constraint.locked}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+
+              <Button onClick={runOptimizer}>Find Paytables</Button>
+
+              {optimization && (
+                optimization.candidates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No paytable meets the target with these constraints.</p>
+                ) : (
                   <div className="space-y-2">
-                    <Label htmlFor="straight-5">5 Card Straight Flush</Label>
-                    <Input
-                      id="straight-5"
-                      type="number"
-                      value={payoutConfig.superFlushRush.fiveCardStraight}
-                      onChange={(e) => updatePayoutConfig('superFlushRush', 'fiveCardStraight', parseInt(e.target.value) || 0)}
-                    />
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Pays (in line order)</TableHead>
+                          <TableHead className="text-right">House Edge</TableHead>
+                          <TableHead className="text-right">Hit Frequency</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {optimization.candidates.map((candidate, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{index + 1}</TableCell>
+                            <TableCell className="font-mono">{candidate.paytable.lines.map(l => l.payout).join(' / ')}</TableCell>
+                            <TableCell className="text-right">{candidate.houseEdge.toFixed(3)}%</TableCell>
+                            <TableCell className="text-right">{candidate.hitFrequency.toFixed(3)}%</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updatePaytable(optimizerBet, () => candidate.paytable)}
+                                disabled={isSimulating}
+                              >
+                                Use
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    <p className="text-xs text-muted-foreground">
+                      {optimization.evaluated.toLocaleString()} tables scored{optimization.exhaustive ? '' : ' (search budget reached; narrow the constraints for a complete search)'}
+                    </p>
                   </div>
+                )
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {showRulesConfig && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Game Rules Configuration</CardTitle>
+              <CardDescription>Adjust the dealer qualifier, Play wager limits and how the base game settles</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h4 className="font-medium mb-3">Dealer Qualifier</h4>
+                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="straight-4">4 Card Straight Flush</Label>
+                    <Label htmlFor="qualifier-length">Minimum Flush Cards</Label>
                     <Input
-                      id="straight-4"
+                      id="qualifier-length"
                       type="number"
-                      value={payoutConfig.superFlushRush.fourCardStraight}
-                      onChange={(e) => updatePayoutConfig('superFlushRush', 'fourCardStraight', parseInt(e.target.value) || 0)}
+                      min="0"
+                      max="7"
+                      value={gameRulesConfig.dealerQualifier.minFlushLength}
+                      onChange={(e) => setGameRulesConfig(prev => ({
+                        ...prev,
+                        dealerQualifier: { ...prev.dealerQualifier, minFlushLength: parseInt(e.target.value) || 0 }
+                      }))}
+                      disabled={isSimulating}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="straight-3">3 Card Straight Flush</Label>
+                    <Label htmlFor="qualifier-high-card">Minimum High Card</Label>
+                    <select
+                      id="qualifier-high-card"
+                      value={gameRulesConfig.dealerQualifier.minHighCard}
+                      onChange={(e) => setGameRulesConfig(prev => ({
+                        ...prev,
+                        dealerQualifier: { ...prev.dealerQualifier, minHighCard: parseInt(e.target.value) }
+                      }))}
+                      disabled={isSimulating}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {[2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14].map(rank => (
+                        <option key={rank} value={rank}>{rankName(rank)}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">Applies when the dealer has exactly the minimum flush cards</p>
+                  </div>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div>
+                <h4 className="font-medium mb-3">Maximum Play Wager (x Ante)</h4>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {[2, 3, 4, 5, 6, 7].map(length => (
+                    <div key={length} className="space-y-2">
+                      <Label htmlFor={`max-play-${length}`}>{length} Card Flush</Label>
+                      <Input
+                        id={`max-play-${length}`}
+                        type="number"
+                        min="1"
+                        value={gameRulesConfig.maxPlayMultiples[length]}
+                        onChange={(e) => setGameRulesConfig(prev => ({
+                          ...prev,
+                          maxPlayMultiples: prev.maxPlayMultiples.map((multiple, i) => i === length ? Math.max(1, parseInt(e.target.value) || 1) : multiple)
+                        }))}
+                        disabled={isSimulating}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {([
+                  ['dealerNotQualified', 'ante', 'Dealer Not Qualified: Ante'],
+                  ['dealerNotQualified', 'play', 'Dealer Not Qualified: Play'],
+                  ['tie', 'ante', 'Tie: Ante'],
+                  ['tie', 'play', 'Tie: Play']
+                ] as const).map(([situation, wager, label]) => (
+                  <div key={`${situation}-${wager}`} className="space-y-2">
+                    <Label htmlFor={`settle-${situation}-${wager}`}>{label}</Label>
+                    <select
+                      id={`settle-${situation}-${wager}`}
+                      value={gameRulesConfig[situation][wager]}
+                      onChange={(e) => updateSettlement(situation, wager, e.target.value as Settlement)}
+                      disabled={isSimulating}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {settlementOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setGameRulesConfig(DEFAULT_GAME_RULES)}
+                disabled={isSimulating}
+              >
+                Reset to Standard Rules
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {showSessions && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Session Simulation</CardTitle>
+              <CardDescription>
+                Plays many sessions from the same bankroll with the current strategy, payouts, rules and seed. A session
+                ends early when the bankroll can no longer cover the table minimum and side bets; a Play the bankroll
+                cannot cover is cut to what it can.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {([
+                  ['bankroll', 'Starting Bankroll ($)'],
+                  ['tableMinimum', 'Table Minimum ($)'],
+                  ['handsPerHour', 'Hands per Hour'],
+                  ['hours', 'Session Length (hours)'],
+                  ['sessions', 'Sessions']
+                ] as const).map(([field, label]) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`session-${field}`}>{label}</Label>
                     <Input
-                      id="straight-3"
+                      id={`session-${field}`}
                       type="number"
-                      value={payoutConfig.superFlushRush.threeCardStraight}
-                      onChange={(e) => updatePayoutConfig('superFlushRush', 'threeCardStraight', parseInt(e.target.value) || 0)}
+                      min="0"
+                      value={sessionForm[field]}
+                      onChange={(e) => setSessionForm(prev => ({ ...prev, [field]: e.target.value }))}
+                      disabled={isRunningSessions}
                     />
                   </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Side Bets (each at the table minimum)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {BONUS_BETS.map(({ betType }) => (
+                    <div key={betType} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`session-bet-${betType}`}
+                        checked={sessionSideBets.includes(betType)}
+                        onCheckedChange={(checked) => setSessionSideBets(prev =>
+                          checked ? [...prev, betType] : prev.filter(b => b !== betType)
+                        )}
+                        disabled={isRunningSessions}
+                      />
+                      <Label htmlFor={`session-bet-${betType}`} className="font-normal">{betType}</Label>
+                    </div>
+                  ))}
                 </div>
               </div>
+              <div className="flex items-center gap-4">
+                <Button onClick={simulateSessionsUI} disabled={isRunningSessions}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Simulate Sessions
+                </Button>
+                {isRunningSessions && (
+                  <>
+                    <Progress value={sessionProgress} className="flex-1" />
+                    <Button variant="outline" size="sm" onClick={() => sessionAbortRef.current?.abort()}>
+                      <Stop className="w-4 h-4 mr-2" />
+                      Stop
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {sessionSummary && !isRunningSessions && (
+                <div className="space-y-6">
+                  <Separator />
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                    <div className="space-y-1">
+                      <div className="text-2xl font-bold text-red-600">{sessionSummary.riskOfRuin.toFixed(1)}%</div>
+                      <div className="text-sm text-muted-foreground">Risk of Ruin</div>
+                      <div className="text-xs text-muted-foreground">{sessionSummary.ruinedSessions.toLocaleString()} of {sessionSummary.sessions.toLocaleString()} sessions</div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-2xl font-bold text-green-600">{sessionSummary.winningSessions.toFixed(1)}%</div>
+                      <div className="text-sm text-muted-foreground">Sessions Ahead</div>
+                      <div className="text-xs text-muted-foreground">Ending above ${sessionSummary.config.bankroll.toLocaleString()}</div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-2xl font-bold">${sessionSummary.endingBankroll.mean.toFixed(0)}</div>
+                      <div className="text-sm text-muted-foreground">Mean Ending Bankroll</div>
+                      <div className="text-xs text-muted-foreground">SD ${sessionSummary.endingBankroll.stdDev.toFixed(0)}</div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-2xl font-bold">{sessionSummary.timeToRuin ? `${sessionSummary.timeToRuin.mean.toFixed(1)}h` : '—'}</div>
+                      <div className="text-sm text-muted-foreground">Mean Time to Ruin</div>
+                      <div className="text-xs text-muted-foreground">{sessionSummary.handsPerSession.toLocaleString()} hands in a full session</div>
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Measure</TableHead>
+                        {sessionSummary.endingBankroll.percentiles.map(p => (
+                          <TableHead key={p.percentile} className="text-right">{p.percentile}th</TableHead>
+                        ))}
+                        <TableHead className="text-right">Mean</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {([
+                        ['Ending bankroll', sessionSummary.endingBankroll, (v: number) => `$${v.toFixed(0)}`],
+                        ['Peak drawdown', sessionSummary.peakDrawdown, (v: number) => `$${v.toFixed(0)}`],
+                        ...(sessionSummary.timeToRuin ? [['Hours to ruin', sessionSummary.timeToRuin, (v: number) => `${v.toFixed(2)}h`] as const] : [])
+                      ] as const).map(([label, stats, format]) => (
+                        <TableRow key={label}>
+                          <TableCell className="font-medium">{label}</TableCell>
+                          {stats.percentiles.map(p => <TableCell key={p.percentile} className="text-right">{format(p.value)}</TableCell>)}
+                          <TableCell className="text-right">{format(stats.mean)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <SessionHistogram
+                      title="Ending Bankroll"
+                      stats={sessionSummary.endingBankroll}
+                      format={(v) => `$${v.toFixed(0)}`}
+                      reference={{ value: sessionSummary.config.bankroll, label: 'Start' }}
+                    />
+                    <SessionHistogram title="Peak Drawdown" stats={sessionSummary.peakDrawdown} format={(v) => `$${v.toFixed(0)}`} />
+                    {sessionSummary.timeToRuin && (
+                      <SessionHistogram title="Time to Ruin" stats={sessionSummary.timeToRuin} format={(v) => `${v.toFixed(1)}h`} />
+                    )}
+                  </div>
+                  {sessionSummary.rng && (
+                    <p className="text-xs text-muted-foreground">
+                      Dealt by {rngName(sessionSummary.rng.algorithm)}{sessionSummary.rng.seed !== undefined ? ` with seed ${sessionSummary.rng.seed}` : ''}
+                      {sessionSummary.partial && ' — cancelled before every session was played'}
+                    </p>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -457,11 +1694,158 @@ Bonus Bets (optional):
           </Card>
         )}
 
+        {handDistribution && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>3-Card Flush Analysis</CardTitle>
+              <CardDescription>
+                Base-game value of playing (1x Play) versus folding a 3-card flush, by high card
+                {recommendedMinRank !== undefined && ` — playing is worth more than folding from ${rankName(recommendedMinRank)}-high up`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>High Card</TableHead>
+                    <TableHead className="text-right">Hands</TableHead>
+                    <TableHead className="text-right">Frequency</TableHead>
+                    <TableHead className="text-right">Dealer Qualifies</TableHead>
+                    <TableHead className="text-right">EV Play</TableHead>
+                    <TableHead className="text-right">EV Fold</TableHead>
+                    <TableHead className="text-right">Exact EV Play</TableHead>
+                    <TableHead className="text-right">Current Strategy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {handDistribution.threeCardFlushByHighCard.map((stats) => (
+                    <TableRow key={stats.highCard}>
+                      <TableCell className="font-medium">{rankName(stats.highCard)}</TableCell>
+                      <TableCell className="text-right">{stats.hands.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{stats.frequency.toFixed(3)}%</TableCell>
+                      <TableCell className="text-right">{stats.dealerQualificationRate.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{stats.playEV.toFixed(4)}</TableCell>
+                      <TableCell className="text-right">{stats.foldEV.toFixed(4)}</TableCell>
+                      <TableCell className="text-right">
+                        {exactThreeCardPlayEV.has(stats.highCard) ? exactThreeCardPlayEV.get(stats.highCard)!.toFixed(4) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {strategyMode !== 'threshold' ? (
+                          <Badge variant="outline">{strategyMode === 'optimal' ? 'Solver table' : 'Custom rules'}</Badge>
+                        ) : (
+                          <Badge variant={stats.highCard >= minThreeCardFlushRank ? 'default' : 'outline'}>
+                            {stats.highCard >= minThreeCardFlushRank ? 'Play' : 'Fold'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {handDistribution && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Flush Distribution</CardTitle>
+              <CardDescription>
+                Percent of hands by best flush length and high card (hover a cell for counts and the exact frequency), and how deals resolve by each side's flush length
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium">Best Flush</h4>
+                  {(['player', 'dealer'] as const).map(side => (
+                    <Button key={side} size="sm" variant={flushSide === side ? 'default' : 'outline'} onClick={() => setFlushSide(side)}>
+                      {side === 'player' ? 'Player' : 'Dealer'}
+                    </Button>
+                  ))}
+                </div>
+                <FlushShapeHeatmap shapes={handDistribution.flushShapes} side={flushSide} exactShapes={exactSummary?.handDistribution.flushShapes} />
+              </div>
+              {handDistribution.flushOutcomes && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Player vs Dealer</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Share of deals the player wins or the dealer fails to qualify, as if every hand were played; green favours the player, red the dealer
+                  </p>
+                  <FlushOutcomeHeatmap outcomes={handDistribution.flushOutcomes} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {strategySolution && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Optimal Play Strategy</CardTitle>
+              <CardDescription>
+                Exact base-game value of the EV-maximizing Play decision versus {strategyMode === 'custom' ? 'the custom rules' : `the ${getMinFlushDisplayText()} minimum 3-card flush rule`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="text-center space-y-2">
+                  <div className="text-3xl font-bold">{strategySolution.optimal.expectedReturn.toFixed(3)}%</div>
+                  <div className="text-sm text-muted-foreground">Optimal Return</div>
+                  <div className="text-xs text-muted-foreground">
+                    {strategySolution.optimal.expectedNet.toFixed(4)} per hand on {strategySolution.optimal.expectedWager.toFixed(3)} wagered
+                  </div>
+                </div>
+                <div className="text-center space-y-2">
+                  <div className="text-3xl font-bold">{strategySolution.baseline.expectedReturn.toFixed(3)}%</div>
+                  <div className="text-sm text-muted-foreground">{strategyMode === 'custom' ? 'Custom Rules Return' : 'Threshold Rule Return'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {strategySolution.baseline.expectedNet.toFixed(4)} per hand on {strategySolution.baseline.expectedWager.toFixed(3)} wagered
+                  </div>
+                </div>
+                <div className="text-center space-y-2">
+                  <div className="text-3xl font-bold text-green-600">+{strategySolution.evGain.toFixed(4)}</div>
+                  <div className="text-sm text-muted-foreground">EV Gain per Hand</div>
+                  <div className="text-xs text-muted-foreground">In Ante units</div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mt-6">
+                Weakest 3-card flush worth playing: {strategySolution.entries.find(e => e.ranks.length === 3 && e.playMultiple > 0)?.ranks.map(rankName).join('-') ?? 'none'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {convergence.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Convergence</CardTitle>
+              <CardDescription>
+                Running return of each bet with its 95% confidence band; the dashed line is the exact return.
+                {isSimulating && ' Cancel once the bands are narrow enough to keep the results so far.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConvergenceChart snapshots={convergence} exactReturns={exactReturns} />
+            </CardContent>
+          </Card>
+        )}
+
         {results.length > 0 && !isSimulating && (
           <Card>
             <CardHeader>
-              <CardTitle>Expected Return Analysis</CardTitle>
-              <CardDescription>Statistical results from {numHands.toLocaleString()} hands ($1 Ante, 1-3x Play, $1 Bonus bets)</CardDescription>
+              <CardTitle className="flex items-center gap-2">
+                Expected Return Analysis
+                {isPartial && <Badge variant="secondary">Partial</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Statistical results from {(handDistribution?.totalHands ?? numHands).toLocaleString()} hands ($1 Ante, 1-3x Play, $1 Bonus bets)
+                {isPartial && ` — cancelled before all ${numHands.toLocaleString()} hands were played`}
+                {!isPartial && precisionOutcome && (precisionOutcome.met
+                  ? ` — standard error targets met after ${precisionOutcome.batches} batch${precisionOutcome.batches === 1 ? '' : 'es'}`
+                  : ` — hand cap of ${numHands.toLocaleString()} reached before every standard error target was met`)}
+                {runRng && ` — dealt by ${rngName(runRng.algorithm)}${runRng.seed !== undefined ? ` with seed ${runRng.seed}` : ''}`}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
@@ -473,6 +1857,12 @@ Bonus Bets (optional):
                     <TableHead className="text-right">Hands Won</TableHead>
                     <TableHead className="text-right">Win Rate</TableHead>
                     <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">Return / Initial Bet</TableHead>
+                    <TableHead className="text-right">Avg Wager</TableHead>
+                    <TableHead className="text-right">95% CI</TableHead>
+                    <TableHead className="text-right">Volatility Index</TableHead>
+                    <TableHead className="text-right">Hit Freq</TableHead>
+                    <TableHead className="text-right">Exact Return</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -482,7 +1872,7 @@ Bonus Bets (optional):
                       <TableCell className="text-right">${result.totalBet}</TableCell>
                       <TableCell className="text-right">${result.totalWon}</TableCell>
                       <TableCell className="text-right">
-                        {result.handsWon} / {numHands.toLocaleString()}
+                        {result.handsWon} / {(handDistribution?.totalHands ?? numHands).toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
                         <Badge variant="outline">
@@ -492,10 +1882,254 @@ Bonus Bets (optional):
                       <TableCell className="text-right">
                         {formatPercentage(result.expectedReturn)}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {result.totalInitialBet > 0 ? formatPercentage(result.returnPerInitialBet) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">${result.averageBet.toFixed(3)}</TableCell>
+                      <TableCell className="text-right text-sm text-muted-foreground">
+                        <div>{result.confidenceInterval95.lower.toFixed(2)}% to {result.confidenceInterval95.upper.toFixed(2)}%</div>
+                        <div className="text-xs">SE {result.standardError.toFixed(3)}% · SD {result.stdDevPerHand.toFixed(2)}/hand</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div>{result.volatilityIndex.toFixed(2)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          SD {result.stdDevPerUnit.toFixed(2)}/unit
+                          {exactResults.has(result.betType) && ` · exact ${exactResults.get(result.betType)!.volatilityIndex.toFixed(2)}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div>{result.hitFrequency.toFixed(2)}%</div>
+                        {exactResults.has(result.betType) && (
+                          <div className="text-xs text-muted-foreground">exact {exactResults.get(result.betType)!.hitFrequency.toFixed(2)}%</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {exactReturns.has(result.betType) ? formatPercentage(exactReturns.get(result.betType)!) : '—'}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Return is the net per dollar wagered, the base game's element of risk. Return / Initial Bet is the net
+                per dollar staked before the Play decision, the base game's house edge per Ante. Avg Wager includes the Play.
+                The volatility index is 1.645 standard deviations per unit of initial bet (90% confidence); Hit Freq counts
+                hands that pay anything.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {baseGame && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Base Game Breakdown</CardTitle>
+              <CardDescription>
+                The dealer qualified on {baseGame.dealerQualificationRate.toFixed(2)}% of hands
+                {exactSummary && ` (exact ${exactSummary.baseGame.dealerQualificationRate.toFixed(2)}%)`}.
+                Each way a hand can end, with its share of the base game's return
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead className="text-right">Hands</TableHead>
+                    <TableHead className="text-right">Frequency</TableHead>
+                    <TableHead className="text-right">Ante Net / Hand</TableHead>
+                    <TableHead className="text-right">Play Net / Hand</TableHead>
+                    <TableHead className="text-right">Return Contribution</TableHead>
+                    <TableHead className="text-right">Exact Contribution</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {baseGame.outcomes.map(outcome => {
+                    const exact = exactSummary?.baseGame.outcomes.find(o => o.outcome === outcome.outcome)
+                    return (
+                      <TableRow key={outcome.outcome}>
+                        <TableCell className="font-medium">{resolutionLabels[outcome.outcome]}</TableCell>
+                        <TableCell className="text-right">{outcome.hands.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{outcome.frequency.toFixed(2)}%</TableCell>
+                        <TableCell className="text-right">{(outcome.hands > 0 ? outcome.anteNet / outcome.hands : 0).toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{(outcome.hands > 0 ? outcome.playNet / outcome.hands : 0).toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(outcome.returnContribution)}</TableCell>
+                        <TableCell className="text-right">{exact ? formatPercentage(exact.returnContribution) : '—'}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Wager</TableHead>
+                    <TableHead className="text-right">Total Bet</TableHead>
+                    <TableHead className="text-right">Total Won</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">95% CI</TableHead>
+                    <TableHead className="text-right">Volatility Index</TableHead>
+                    <TableHead className="text-right">Hit Freq</TableHead>
+                    <TableHead className="text-right">Exact Return</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {baseGame.wagers.map(wager => {
+                    const exact = exactSummary?.baseGame.wagers.find(w => w.betType === wager.betType)
+                    return (
+                      <TableRow key={wager.betType}>
+                        <TableCell className="font-medium">{wager.betType}</TableCell>
+                        <TableCell className="text-right">${wager.totalBet}</TableCell>
+                        <TableCell className="text-right">${wager.totalWon}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(wager.expectedReturn)}</TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground">
+                          {wager.confidenceInterval95.lower.toFixed(2)}% to {wager.confidenceInterval95.upper.toFixed(2)}%
+                        </TableCell>
+                        <TableCell className="text-right">{wager.volatilityIndex.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{wager.hitFrequency.toFixed(2)}%</TableCell>
+                        <TableCell className="text-right">{exact ? formatPercentage(exact.expectedReturn) : '—'}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {results.some(r => r.paylines.length > 0) && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Paytable Breakdown</CardTitle>
+              <CardDescription>How often each payline hits and how much of the return it contributes</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {results.filter(r => r.paylines.length > 0).map((result) => (
+                <div key={result.betType}>
+                  <h4 className="font-medium mb-3">{result.betType}</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Payline</TableHead>
+                        <TableHead className="text-right">Pays</TableHead>
+                        <TableHead className="text-right">Hits</TableHead>
+                        <TableHead className="text-right">Frequency</TableHead>
+                        <TableHead className="text-right">1 in</TableHead>
+                        <TableHead className="text-right">Return Contribution</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.paylines.map((line) => (
+                        <TableRow key={line.payline}>
+                          <TableCell className="font-medium">{line.payline}</TableCell>
+                          <TableCell className="text-right">{line.payout >= 0 ? `${line.payout} to 1` : '—'}</TableCell>
+                          <TableCell className="text-right">{line.hits.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{line.hitFrequency.toFixed(4)}%</TableCell>
+                          <TableCell className="text-right">
+                            {line.hits > 0 ? (100 / line.hitFrequency).toLocaleString(undefined, { maximumFractionDigits: 1 }) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">{line.returnContribution.toFixed(3)}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {comparisons.length > 0 && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Paytable Comparison</CardTitle>
+              <CardDescription>
+                Bonus bet returns of each compared preset on the same simulated hands, and the difference from the current paytables
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paytable</TableHead>
+                    <TableHead>Bet Type</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead className="text-right">95% CI of Difference</TableHead>
+                    <TableHead className="text-right">Exact Difference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparisons.flatMap(comparison => comparison.differences.map(difference => {
+                    const result = comparison.results.find(r => r.betType === difference.betType)!
+                    const exactReturn = exactComparisonReturns.get(comparison.name)?.get(difference.betType)
+                    const currentExactReturn = exactReturns.get(difference.betType)
+                    // The interval excludes zero when the paytables really differ at 95% confidence
+                    const significant = difference.confidenceInterval95.lower > 0 || difference.confidenceInterval95.upper < 0
+                    return (
+                      <TableRow key={`${comparison.name}-${difference.betType}`}>
+                        <TableCell className="font-medium">{comparison.name}</TableCell>
+                        <TableCell>{difference.betType}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(result.expectedReturn)}</TableCell>
+                        <TableCell className="text-right">
+                          {difference.difference >= 0 ? '+' : ''}{difference.difference.toFixed(3)} pp
+                        </TableCell>
+                        <TableCell className="text-right text-xs">
+                          <span className={significant ? 'font-medium' : 'text-muted-foreground'}>
+                            [{difference.confidenceInterval95.lower.toFixed(3)}, {difference.confidenceInterval95.upper.toFixed(3)}]
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {exactReturn !== undefined && currentExactReturn !== undefined
+                            ? `${exactReturn - currentExactReturn >= 0 ? '+' : ''}${(exactReturn - currentExactReturn).toFixed(3)} pp`
+                            : '—'}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  }))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {handRecords.length > 0 && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Hand Trace</CardTitle>
+              <CardDescription>
+                {handRecords.length.toLocaleString()} recorded hands with the cards dealt, each side's best flush (outlined), the Play decision and how every bet settled
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <HandTraceViewer records={handRecords} />
+            </CardContent>
+          </Card>
+        )}
+
+        {replayableRun && !isSimulating && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Replay Hand</CardTitle>
+              <CardDescription>
+                Deal any of the last run's {replayableRun.numHands.toLocaleString()} hands again from its seed ({String(replayableRun.seed)}, {rngName(replayableRun.algorithm)}), numbered from 0 as in the Hand Trace
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max={replayableRun.numHands - 1}
+                  placeholder="Hand number"
+                  aria-label="Hand number to replay"
+                  value={replayIndex}
+                  onChange={(e) => setReplayIndex(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') replayHandUI() }}
+                />
+                <Button onClick={replayHandUI} disabled={replayIndex === ''}>Replay</Button>
+              </div>
+              {replayedHand && <HandTraceViewer records={[replayedHand]} />}
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,120 @@
+// cli.ts
+// Headless runner: resolves a simulation from a config file and flags, runs it on worker_threads,
+// prints the results table and optionally writes JSON and CSV. Build with `npm run build:cli`.
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { availableParallelism } from 'node:os'
+import { CLI_USAGE, parseCliArgs, resolveRunConfig } from '../lib/cli-config'
+import { BUILT_IN_PRESETS, parsePresetFile } from '../lib/paytable-presets'
+import { formatHandRecord, formatResultsTable, formatRngSelfTest, summaryToCsv } from '../lib/results-export'
+import { performExactAnalysis } from '../lib/exact-analysis'
+import { solveOptimalStrategy } from '../lib/strategy-solver'
+import { replayHand } from '../lib/simulation-core'
+import { runRngAlgorithmSelfTest } from '../lib/rng-self-test'
+import { createNodeWorkerPool } from '../lib/node-worker-pool'
+import { runSimulationOnPool } from '../lib/worker-pool'
+import type { PaytablePreset } from '../lib/paytable-presets'
+
+// Reports problems and exits with status 1
+function fail(errors: string[]): never {
+  for (const error of errors) console.error(`error: ${error}`)
+  process.exit(1)
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'))
+  } catch (err) {
+    fail([`${path}: ${err instanceof Error ? err.message : String(err)}`])
+  }
+}
+
+async function main(argv: string[]) {
+  const { options, errors } = parseCliArgs(argv)
+  if (options.help) {
+    console.log(CLI_USAGE)
+    return
+  }
+  if (errors.length > 0) fail([...errors, 'run with --help for usage'])
+
+  const presets: PaytablePreset[] = [...BUILT_IN_PRESETS]
+  if (options.presetsFile) {
+    const parsed = parsePresetFile(readFileSync(options.presetsFile, 'utf8'))
+    if (parsed.errors.length > 0) fail(parsed.errors.map(error => `${options.presetsFile}: ${error}`))
+    presets.push(...parsed.presets)
+  }
+
+  const file = options.configFile ? readJson(options.configFile) : undefined
+  const resolved = resolveRunConfig(file, options, presets)
+  if (!resolved.config) fail(resolved.errors)
+  const run = resolved.config
+  // The optimal strategy is solved with the configured one as its baseline, as in the UI
+  const strategy = run.optimal ? solveOptimalStrategy(run.strategy, run.gameRules).strategy : run.strategy
+  if (run.replay !== undefined) {
+    // Validated to come with a seed and a seeded generator
+    const algorithm = run.rng === 'crypto' ? undefined : run.rng
+    console.log(formatHandRecord(replayHand(run.seed!, run.replay, run.payoutConfig, strategy, run.gameRules, algorithm)))
+    return
+  }
+  if (run.selfTest) {
+    const result = runRngAlgorithmSelfTest(run.rng ?? (run.seed !== undefined ? 'philox' : 'crypto'), run.seed)
+    console.log(formatRngSelfTest(result))
+    if (!result.passed) process.exitCode = 1
+    return
+  }
+  const workers = Math.min(run.workers ?? availableParallelism(), run.hands)
+
+  let lastReported = -1
+  const onProgress = options.quiet ? undefined : (progress: number) => {
+    // Report each whole 10% once
+    const step = Math.floor(progress / 10) * 10
+    if (step > lastReported) {
+      lastReported = step
+      process.stderr.write(`\r${step}%`)
+    }
+  }
+
+  // Ctrl-C stops the run and reports the results of the hands played so far
+  const abort = new AbortController()
+  process.once('SIGINT', () => abort.abort())
+
+  const startTime = performance.now()
+  // The worker is bundled next to this entry point
+  const pool = createNodeWorkerPool(new URL('./simulation.node-worker.js', import.meta.url), workers)
+  const summary = await runSimulationOnPool(
+    pool,
+    run.hands,
+    run.payoutConfig,
+    strategy,
+    run.gameRules,
+    onProgress,
+    run.seed,
+    workers,
+    { comparisons: run.comparisons, signal: abort.signal, rngAlgorithm: run.rng }
+  ).finally(() => pool.terminate())
+  const duration = (performance.now() - startTime) / 1000
+  const played = summary.handDistribution.totalHands
+  if (!options.quiet) process.stderr.write(`\r${played.toLocaleString('en-US')} hands on ${workers} worker${workers === 1 ? '' : 's'} in ${duration.toFixed(1)}s\n`)
+
+  const exact = performExactAnalysis(run.payoutConfig, strategy, run.gameRules)
+  console.log(formatResultsTable(summary, exact))
+
+  if (options.jsonFile) {
+    const report = {
+      hands: run.hands,
+      seed: summary.rng?.seed ?? null,
+      rng: summary.rng?.algorithm,
+      workers,
+      payoutConfig: run.payoutConfig,
+      strategy,
+      gameRules: run.gameRules,
+      comparisons: run.comparisons,
+      summary,
+      exact: exact.results
+    }
+    writeFileSync(options.jsonFile, JSON.stringify(report, null, 2) + '\n')
+  }
+  if (options.csvFile) writeFileSync(options.csvFile, summaryToCsv(summary, exact))
+}
+
+main(process.argv.slice(2)).catch(err => fail([err instanceof Error ? err.message : String(err)]))
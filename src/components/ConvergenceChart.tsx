@@ -0,0 +1,75 @@
+import { useMemo } from 'react'
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import type { ChartConfig } from '@/components/ui/chart'
+import type { SimulationSnapshot } from '@/lib/simulation'
+
+const chartConfig = {
+  expectedReturn: { label: 'Return %', color: 'var(--chart-1)' },
+  confidenceBand: { label: '95% CI', color: 'var(--chart-2)' }
+} satisfies ChartConfig
+
+const formatHands = (hands: number) => Intl.NumberFormat('en-US', { notation: 'compact' }).format(hands)
+
+interface ConvergenceChartProps {
+  snapshots: SimulationSnapshot[]
+  exactReturns?: Map<string, number> // Drawn as a reference line when known
+}
+
+// Running expected return of each bet with its 95% confidence band, one small chart per bet
+export function ConvergenceChart({ snapshots, exactReturns }: ConvergenceChartProps) {
+  const series = useMemo(() => {
+    const betTypes = snapshots.length > 0 ? snapshots[snapshots.length - 1].results.map(r => r.betType) : []
+    return betTypes.map(betType => ({
+      betType,
+      data: snapshots.flatMap(snapshot => {
+        const result = snapshot.results.find(r => r.betType === betType)
+        if (!result) return []
+        return [{
+          hands: snapshot.hands,
+          expectedReturn: result.expectedReturn,
+          confidenceBand: [result.confidenceInterval95.lower, result.confidenceInterval95.upper]
+        }]
+      })
+    }))
+  }, [snapshots])
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {series.map(({ betType, data }) => {
+        const latest = data[data.length - 1]
+        const exact = exactReturns?.get(betType)
+        return (
+          <div key={betType} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{betType}</span>
+              {latest && (
+                <span className="text-muted-foreground">
+                  {latest.expectedReturn.toFixed(2)}% ± {((latest.confidenceBand[1] - latest.confidenceBand[0]) / 2).toFixed(2)}
+                </span>
+              )}
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+              <ComposedChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="hands" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatHands} tickLine={false} axisLine={false} />
+                <YAxis width={44} tickFormatter={(value: number) => `${value.toFixed(1)}%`} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${formatHands(payload?.[0]?.payload?.hands ?? 0)} hands`} />} />
+                <Area
+                  dataKey="confidenceBand"
+                  type="monotone"
+                  stroke="none"
+                  fill="var(--color-confidenceBand)"
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+                <Line dataKey="expectedReturn" type="monotone" stroke="var(--color-expectedReturn)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {exact !== undefined && <ReferenceLine y={exact} stroke="var(--muted-foreground)" strokeDasharray="4 4" />}
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import type { ReactNode } from 'react'
+import { FLUSH_LENGTHS } from '@/lib/simulation'
+import type { FlushOutcomeStats, FlushShapeStats } from '@/lib/simulation'
+
+const HIGH_CARDS = [3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]
+
+const rankLabels: { [rank: number]: string } = { 11: 'J', 12: 'Q', 13: 'K', 14: 'A' }
+
+const PLAYER_COLOR = 'oklch(0.65 0.2 145)'
+const DEALER_COLOR = 'oklch(0.6 0.22 25)'
+
+// Square root scaling keeps the rare long flushes visible next to the common short ones
+const shade = (value: number, max: number) => (max > 0 ? Math.sqrt(value / max) : 0)
+
+const percent = (value: number) => `${value < 0.01 && value > 0 ? value.toExponential(1) : value.toFixed(2)}%`
+
+function HeatmapGrid({ columns, rowLabel, columnLabel, children }: {
+  columns: string[]
+  rowLabel: string
+  columnLabel: string
+  children: ReactNode
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="text-xs text-muted-foreground mb-1">{rowLabel} ↓ · {columnLabel} →</div>
+      <div className="grid gap-px text-xs" style={{ gridTemplateColumns: `3rem repeat(${columns.length}, minmax(2.75rem, 1fr))` }}>
+        <div />
+        {columns.map(column => <div key={column} className="text-center font-medium text-muted-foreground">{column}</div>)}
+        {children}
+      </div>
+    </div>
+  )
+}
+
+interface FlushShapeHeatmapProps {
+  shapes: FlushShapeStats[]
+  side: 'player' | 'dealer'
+  exactShapes?: FlushShapeStats[] // Shown in each cell's tooltip when known
+}
+
+// Frequency of each best flush shape on one side, by length (rows) and high card (columns)
+export function FlushShapeHeatmap({ shapes, side, exactShapes }: FlushShapeHeatmapProps) {
+  const frequency = (stats: FlushShapeStats) => (side === 'player' ? stats.playerFrequency : stats.dealerFrequency)
+  const max = Math.max(0, ...shapes.map(frequency))
+  return (
+    <HeatmapGrid columns={HIGH_CARDS.map(rank => rankLabels[rank] ?? String(rank))} rowLabel="Flush cards" columnLabel="High card">
+      {FLUSH_LENGTHS.map(length => [
+        <div key={`label-${length}`} className="flex items-center font-medium text-muted-foreground">{length}</div>,
+        ...HIGH_CARDS.map(highCard => {
+          const stats = shapes.find(s => s.length === length && s.highCard === highCard)
+          if (!stats) return <div key={highCard} />
+          const exact = exactShapes?.find(s => s.length === length && s.highCard === highCard)
+          const hands = side === 'player' ? stats.player : stats.dealer
+          return (
+            <div
+              key={highCard}
+              className="rounded-sm px-1 py-2 text-center tabular-nums"
+              style={{ backgroundColor: `color-mix(in oklch, var(--primary) ${Math.round(shade(frequency(stats), max) * 100)}%, transparent)` }}
+              title={`${length}-card ${rankLabels[highCard] ?? highCard}-high: ${hands.toLocaleString()} hands (${percent(frequency(stats))})` +
+                (exact ? `, exact ${percent(frequency(exact))}` : '')}
+            >
+              {frequency(stats) > 0 ? frequency(stats).toFixed(2) : '·'}
+            </div>
+          )
+        })
+      ])}
+    </HeatmapGrid>
+  )
+}
+
+// How deals resolve by player flush length (rows) and dealer flush length (columns), as if the
+// player had played. Green cells favour the player and red the dealer; stronger colour means more
+// hands.
+export function FlushOutcomeHeatmap({ outcomes }: { outcomes: FlushOutcomeStats[] }) {
+  const max = Math.max(0, ...outcomes.map(o => o.frequency))
+  return (
+    <HeatmapGrid columns={FLUSH_LENGTHS.map(String)} rowLabel="Player flush cards" columnLabel="Dealer flush cards">
+      {FLUSH_LENGTHS.map(playerLength => [
+        <div key={`label-${playerLength}`} className="flex items-center font-medium text-muted-foreground">{playerLength}</div>,
+        ...FLUSH_LENGTHS.map(dealerLength => {
+          const cell = outcomes.find(o => o.playerLength === playerLength && o.dealerLength === dealerLength)
+          if (!cell || cell.hands === 0) return <div key={dealerLength} className="rounded-sm px-1 py-2 text-center text-muted-foreground">·</div>
+          // Dealer not qualifying pays the Ante, so it counts towards the player here
+          const playerShare = (cell.playerWins + cell.dealerNotQualified) / cell.hands
+          const share = (count: number) => `${((count / cell.hands) * 100).toFixed(1)}%`
+          return (
+            <div
+              key={dealerLength}
+              className="rounded-sm px-1 py-2 text-center tabular-nums"
+              style={{
+                backgroundColor: `color-mix(in oklch, ${playerShare >= 0.5 ? PLAYER_COLOR : DEALER_COLOR} ${Math.round(shade(cell.frequency, max) * 80)}%, transparent)`
+              }}
+              title={`Player ${playerLength} vs dealer ${dealerLength} cards: ${cell.hands.toLocaleString()} hands (${percent(cell.frequency)})\n` +
+                `Player wins ${share(cell.playerWins)}, dealer wins ${share(cell.dealerWins)}, push ${share(cell.push)}, ` +
+                `dealer does not qualify ${share(cell.dealerNotQualified)}`}
+            >
+              {(playerShare * 100).toFixed(0)}%
+            </div>
+          )
+        })
+      ])}
+    </HeatmapGrid>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import type { MouseEvent } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination'
+import { cn } from '@/lib/utils'
+import type { BaseGameOutcome, Card, HandRecord } from '@/lib/simulation'
+
+const HANDS_PER_PAGE = 10
+
+const rankLabels: { [rank: number]: string } = { 11: 'J', 12: 'Q', 13: 'K', 14: 'A' }
+
+const outcomeLabels: { [outcome in BaseGameOutcome]: string } = {
+  dealerNotQualified: 'Dealer does not qualify',
+  playerWins: 'Player wins',
+  dealerWins: 'Dealer wins',
+  push: 'Tie'
+}
+
+function PlayingCard({ card, highlighted }: { card: Card; highlighted: boolean }) {
+  const red = card.suit === '♥' || card.suit === '♦'
+  return (
+    <span
+      className={cn(
+        'inline-flex h-8 w-7 items-center justify-center rounded border bg-background font-mono text-xs',
+        red && 'text-red-600',
+        highlighted ? 'border-primary ring-1 ring-primary' : 'opacity-60'
+      )}
+    >
+      {rankLabels[card.rank] ?? card.rank}{card.suit}
+    </span>
+  )
+}
+
+// The 7 cards of one side, with the cards of its best flush outlined
+function HandCards({ label, cards, flush }: { label: string; cards: Card[]; flush: Card[] }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-14 text-xs text-muted-foreground">{label}</span>
+      <div className="flex gap-1">
+        {cards.map(card => (
+          <PlayingCard key={`${card.rank}${card.suit}`} card={card} highlighted={flush.some(c => c.rank === card.rank && c.suit === card.suit)} />
+        ))}
+      </div>
+      <span className="text-xs text-muted-foreground">{flush.length}-card flush</span>
+    </div>
+  )
+}
+
+// Page numbers to show: the first, the last, and the current page with its neighbours
+function visiblePages(page: number, pageCount: number): (number | 'gap')[] {
+  const pages: (number | 'gap')[] = []
+  for (let p = 0; p < pageCount; p++) {
+    if (p === 0 || p === pageCount - 1 || Math.abs(p - page) <= 1) pages.push(p)
+    else if (pages[pages.length - 1] !== 'gap') pages.push('gap')
+  }
+  return pages
+}
+
+// Paginated list of traced hands, each with both sides' cards, the decision and every settlement
+export function HandTraceViewer({ records }: { records: HandRecord[] }) {
+  const [page, setPage] = useState(0)
+  const pageCount = Math.max(1, Math.ceil(records.length / HANDS_PER_PAGE))
+  const current = Math.min(page, pageCount - 1)
+  const shown = records.slice(current * HANDS_PER_PAGE, (current + 1) * HANDS_PER_PAGE)
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault()
+    setPage(Math.max(0, Math.min(pageCount - 1, target)))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y">
+        {shown.map(record => (
+          <div key={record.hand} className="space-y-2 py-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">Hand #{record.hand.toLocaleString()}</span>
+              <Badge variant={record.playWager > 0 ? 'default' : 'secondary'}>
+                {record.playWager > 0 ? `Play ${record.playWager}x` : 'Fold'}
+              </Badge>
+              <span className="text-muted-foreground">
+                {record.outcome ? outcomeLabels[record.outcome] : 'Ante lost'}
+              </span>
+            </div>
+            <HandCards label="Player" cards={record.playerCards} flush={record.playerFlush} />
+            <HandCards label="Dealer" cards={record.dealerCards} flush={record.dealerFlush} />
+            <div className="flex flex-wrap gap-2">
+              {record.bets.map(bet => (
+                <Badge key={bet.betType} variant="outline" className={cn(bet.net > 0 && 'text-green-600', bet.net < 0 && 'text-red-600')}>
+                  {bet.betType}: {bet.net > 0 ? '+' : ''}{bet.net}
+                  {bet.payline && ` (${bet.payline})`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goTo(current - 1)} aria-disabled={current === 0} />
+            </PaginationItem>
+            {visiblePages(current, pageCount).map((p, i) => (
+              <PaginationItem key={p === 'gap' ? `gap-${i}` : p}>
+                {p === 'gap'
+                  ? <PaginationEllipsis />
+                  : <PaginationLink href="#" isActive={p === current} onClick={goTo(p)}>{p + 1}</PaginationLink>}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goTo(current + 1)} aria-disabled={current === pageCount - 1} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import type { ChartConfig } from '@/components/ui/chart'
+import type { DistributionStats } from '@/lib/simulation'
+
+const chartConfig = {
+  frequency: { label: 'Sessions %', color: 'var(--chart-1)' }
+} satisfies ChartConfig
+
+interface SessionHistogramProps {
+  title: string
+  stats: DistributionStats
+  format: (value: number) => string
+  reference?: { value: number; label: string } // Drawn as a dashed line, e.g. the starting bankroll
+}
+
+// Histogram of one session measure, headed by its mean and median
+export function SessionHistogram({ title, stats, format, reference }: SessionHistogramProps) {
+  const data = stats.histogram.map(bin => ({
+    middle: (bin.lower + bin.upper) / 2,
+    range: `${format(bin.lower)} to ${format(bin.upper)}`,
+    frequency: bin.frequency
+  }))
+  const median = stats.percentiles.find(p => p.percentile === 50)?.value ?? 0
+  // Bins are categories, so the reference line marks the bin holding its value
+  const referenceBin = reference && data.find((_, i) => reference.value < stats.histogram[i].upper || i === data.length - 1)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{title}</span>
+        <span className="text-muted-foreground">mean {format(stats.mean)} · median {format(median)}</span>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+        <BarChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }} barCategoryGap={1}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="middle" tickFormatter={format} tickLine={false} axisLine={false} minTickGap={16} />
+          <YAxis width={44} tickFormatter={(value: number) => `${value.toFixed(0)}%`} tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.range ?? ''} />} />
+          <Bar dataKey="frequency" fill="var(--color-frequency)" isAnimationActive={false} />
+          {reference && referenceBin && (
+            <ReferenceLine x={referenceBin.middle} stroke="var(--muted-foreground)" strokeDasharray="4 4" label={{ value: reference.label, position: 'top', fontSize: 10 }} />
+          )}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  )
+}
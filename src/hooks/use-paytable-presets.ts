@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react'
+import { BUILT_IN_PRESETS, exportPresets, mergePresets, parsePresetFile } from '@/lib/paytable-presets'
+import type { PaytablePreset } from '@/lib/paytable-presets'
+import type { PayoutConfig } from '@/lib/paytables'
+
+const STORAGE_KEY = 'i-luv-suits.paytable-presets'
+
+// Reads the user presets saved in this browser, in the same versioned format as exported files
+function loadUserPresets(): PaytablePreset[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const { presets, errors } = parsePresetFile(stored)
+    if (errors.length > 0) console.warn('Ignoring saved paytable presets', errors)
+    return presets
+  } catch {
+    return []
+  }
+}
+
+// The paytable preset library: built-in presets followed by the user's own, persisted locally
+export function usePaytablePresets() {
+  const [userPresets, setUserPresets] = useState<PaytablePreset[]>(loadUserPresets)
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, exportPresets(userPresets))
+    } catch (err) {
+      console.warn('Unable to save paytable presets', err)
+    }
+  }, [userPresets])
+
+  // Saves the payout configuration under a name, replacing a user preset of the same name
+  const savePreset = (name: string, payoutConfig: PayoutConfig): string[] => {
+    const { presets, errors } = mergePresets(userPresets, [{ name, payoutConfig }])
+    if (errors.length === 0) setUserPresets(presets)
+    return errors
+  }
+
+  const deletePreset = (name: string) => {
+    setUserPresets(prev => prev.filter(preset => preset.name !== name))
+  }
+
+  // Adds the presets in an exported file; returns the problems found, if any, and adds nothing then
+  const importPresets = (json: string): string[] => {
+    const parsed = parsePresetFile(json)
+    if (parsed.errors.length > 0) return parsed.errors
+    const { presets, errors } = mergePresets(userPresets, parsed.presets)
+    if (errors.length === 0) setUserPresets(presets)
+    return errors
+  }
+
+  return {
+    presets: [...BUILT_IN_PRESETS, ...userPresets],
+    savePreset,
+    deletePreset,
+    importPresets,
+    exportUserPresets: () => exportPresets(userPresets)
+  }
+}
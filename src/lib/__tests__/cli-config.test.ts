@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_CLI_HANDS, parseCliArgs, resolveRunConfig } from '../cli-config'
+import { BUILT_IN_PRESETS } from '../paytable-presets'
+import { DEFAULT_GAME_RULES, DEFAULT_PAYOUT_CONFIG, thresholdStrategy } from '../simulation-core'
+import type { PayoutConfig } from '../simulation-core'
+
+const richer: PayoutConfig = {
+  ...DEFAULT_PAYOUT_CONFIG,
+  flushRush: { hand: 'flush', lines: DEFAULT_PAYOUT_CONFIG.flushRush.lines.map(line => ({ ...line, payout: line.payout + 1 })) }
+}
+const presets = [...BUILT_IN_PRESETS, { name: 'Richer', payoutConfig: richer }]
+
+describe('cli config', () => {
+  it('parses flags with separate or attached values', () => {
+    const { options, errors } = parseCliArgs(['--hands', '5000', '--seed=abc', '--optimal', '--compare', 'A', '--compare=B', '--csv', 'out.csv'])
+    expect(errors).toEqual([])
+    expect(options).toMatchObject({ hands: 5000, seed: 'abc', optimal: true, compare: ['A', 'B'], csvFile: 'out.csv' })
+  })
+
+  it('reports bad flags', () => {
+    expect(parseCliArgs(['--workers', '0', '--nope', '--json']).errors).toEqual([
+      '--workers must be a whole number of at least 1',
+      'unknown option --nope',
+      '--json needs a value'
+    ])
+    expect(parseCliArgs(['--quiet=yes']).errors).toEqual(['--quiet does not take a value'])
+  })
+
+  it('fills in defaults like the UI', () => {
+    const { config } = resolveRunConfig(undefined, parseCliArgs([]).options, presets)
+    expect(config).toEqual({
+      hands: DEFAULT_CLI_HANDS,
+      seed: undefined,
+      workers: undefined,
+      payoutConfig: DEFAULT_PAYOUT_CONFIG,
+      strategy: thresholdStrategy(9),
+      optimal: false,
+      gameRules: DEFAULT_GAME_RULES,
+      comparisons: []
+    })
+  })
+
+  it('lets flags override the config file', () => {
+    const file = {
+      hands: 1000,
+      seed: 7,
+      preset: 'Richer',
+      minThreeCardFlushRank: 12,
+      gameRules: { tie: { ante: 'lose', play: 'lose' } },
+      comparisons: [{ name: 'Inline', payoutConfig: DEFAULT_PAYOUT_CONFIG }]
+    }
+    const { config, errors } = resolveRunConfig(file, parseCliArgs(['--hands', '2000', '--min-rank', '0', '--compare', 'Standard']).options, presets)
+    expect(errors).toEqual([])
+    expect(config).toMatchObject({ hands: 2000, seed: 7, payoutConfig: richer, strategy: thresholdStrategy(0) })
+    expect(config!.gameRules).toEqual({ ...DEFAULT_GAME_RULES, tie: { ante: 'lose', play: 'lose' } })
+    expect(config!.comparisons.map(c => c.name)).toEqual(['Standard', 'Inline'])
+  })
+
+  it('reports every problem in the config', () => {
+    const file = {
+      hands: -1,
+      payoutConfig: { flushRush: DEFAULT_PAYOUT_CONFIG.flushRush },
+      gameRules: { maxPlayMultiples: [1, 2, 3] },
+      compare: ['Missing']
+    }
+    expect(resolveRunConfig(file, parseCliArgs([]).options, presets).errors).toEqual([
+      'hands must be a whole number of at least 1',
+      'payoutConfig: superFlushRush: must be an object',
+      'gameRules.maxPlayMultiples must list 8 non-negative multiples (flush lengths 0-7)',
+      'unknown preset "Missing"'
+    ])
+    expect(resolveRunConfig([], parseCliArgs([]).options, presets).errors).toEqual(['config file must contain a JSON object'])
+  })
+
+  it('checks every strategy entry and the comparison lists', () => {
+    const resolve = (file: object) => resolveRunConfig(file, parseCliArgs([]).options, presets).errors
+    expect(resolve({
+      strategy: { type: 'rules', rules: [{ flushLength: 3, minRanks: [9] }, null, { flushLength: 9, minRanks: 'J', playMultiple: -1 }] }
+    })).toEqual([
+      'strategy.rules[1] must be an object',
+      'strategy.rules[2].flushLength must be a whole number from 0 to 7',
+      'strategy.rules[2].minRanks must list ranks from 2 to 14',
+      'strategy.rules[2].playMultiple must be a non-negative number'
+    ])
+    expect(resolve({ strategy: { type: 'table', table: { '3:14-13-12': 3, '2:14-13': 'fold' } } }))
+      .toEqual(['strategy.table["2:14-13"] must be a non-negative play multiple'])
+    expect(resolve({ strategy: { type: 'rules' } }))
+      .toEqual(["strategy must be { type: 'rules', rules: [...] } or { type: 'table', table: {...} }"])
+    expect(resolve({ compare: 'Standard', comparisons: { name: 'Inline' } })).toEqual([
+      'compare must be an array of preset names',
+      'comparisons must be an array of { name, payoutConfig }'
+    ])
+  })
+
+  it('needs the seed of the run to replay a hand', () => {
+    const resolve = (argv: string[]) => resolveRunConfig({ hands: 1000 }, parseCliArgs(argv).options, presets)
+    expect(resolve(['--replay', '12', '--seed', 'x']).config).toMatchObject({ replay: 12, seed: 'x' })
+    expect(resolve(['--replay', '12']).errors).toEqual(['--replay needs the seed of the run'])
+    expect(resolve(['--replay', '1000', '--seed', 'x']).errors).toEqual(["--replay must be below the run's 1000 hands"])
+    expect(parseCliArgs(['--replay', '-1']).errors).toEqual(['--replay must be a whole number'])
+    expect(resolve(['--replay', '12', '--seed', 'x', '--rng', 'crypto']).errors).toEqual(['--replay cannot replay a run from the crypto generator'])
+  })
+
+  it('selects the generator from the flags or the config file', () => {
+    expect(resolveRunConfig({ rng: 'pcg32' }, parseCliArgs([]).options, presets).config).toMatchObject({ rng: 'pcg32' })
+    expect(resolveRunConfig({ rng: 'pcg32' }, parseCliArgs(['--rng', 'xoshiro128ss', '--self-test']).options, presets).config)
+      .toMatchObject({ rng: 'xoshiro128ss', selfTest: true })
+    expect(resolveRunConfig(undefined, parseCliArgs(['--rng=mt19937']).options, presets).errors)
+      .toEqual(['unknown rng "mt19937" (one of philox, mulberry32, xoshiro128ss, pcg32, crypto)'])
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import {
+  DEFAULT_PAYOUT_CONFIG,
   mulberry32,
   createDeck,
   shuffleDeckWithRng,
@@ -12,7 +13,8 @@ import {
   dealerQualifies,
   PayoutConfig,
   performSimulation,
-  Card
+  Card,
+  thresholdStrategy
 } from '../simulation-core'
 
 describe('edge cases & invariants', () => {
@@ -136,17 +138,14 @@ describe('edge cases & invariants', () => {
   })
 
   it('performSimulation deterministic for same seed (small run) and progress callback invoked', async () => {
-    const cfg: PayoutConfig = {
-      flushRush: { sevenCard: 100, sixCard: 20, fiveCard: 10, fourCard: 2 },
-      superFlushRush: { sevenCardStraight: 500, sixCardStraight: 200, fiveCardStraight: 100, fourCardStraight: 50, threeCardStraight: 9 }
-    }
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
     const seed = 424242
     const rngA = mulberry32(seed)
     const rngB = mulberry32(seed)
     let progressA = -1
     let progressB = -1
-    const s1 = await performSimulation(50, cfg, 9, rngA, (p) => { progressA = p })
-    const s2 = await performSimulation(50, cfg, 9, rngB, (p) => { progressB = p })
+    const s1 = await performSimulation(50, cfg, thresholdStrategy(9), rngA, (p) => { progressA = p })
+    const s2 = await performSimulation(50, cfg, thresholdStrategy(9), rngB, (p) => { progressB = p })
     expect(JSON.stringify(s1)).toBe(JSON.stringify(s2))
     expect(progressA).toBeGreaterThanOrEqual(0)
     expect(progressB).toBeGreaterThanOrEqual(0)
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_GAME_RULES, DEFAULT_PAYOUT_CONFIG, VOLATILITY_INDEX_Z, mulberry32, performSimulation, thresholdStrategy, GameRulesConfig, PayoutConfig } from '../simulation-core'
+import { analyzeFlushClasses, choose, countStraightFlushLengths, maskToRanks, performExactAnalysis } from '../exact-analysis'
+
+const payoutConfig: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+
+describe('exact analysis', () => {
+  it('choose and maskToRanks helpers', () => {
+    expect(choose(52, 7)).toBe(133784560)
+    expect(choose(45, 7)).toBe(45379620)
+    expect(choose(3, 5)).toBe(0)
+    expect(maskToRanks(0b1000000000011)).toEqual([14, 3, 2])
+  })
+
+  it('flush classes account for every deal exactly once', () => {
+    const { classes, totalHands, totalDeals } = analyzeFlushClasses()
+    expect(totalDeals).toBe(choose(52, 7) * choose(45, 7))
+    expect(classes.reduce((sum, c) => sum + c.deals, 0)).toBe(totalDeals)
+    expect(classes.reduce((sum, c) => sum + c.hands, 0)).toBe(totalHands)
+    for (const c of classes) {
+      expect(c.dealerNotQualified + c.playerWins + c.pushes + c.dealerWins).toBe(c.deals)
+      expect(c.dealerWins).toBeGreaterThanOrEqual(0)
+      expect(c.pushes).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  it('matches closed-form flush counts', () => {
+    const { classes } = analyzeFlushClasses()
+    const handsWithLength = (length: number) => classes.filter(c => c.ranks.length === length).reduce((sum, c) => sum + c.hands, 0)
+    // Seven cards of one suit
+    expect(handsWithLength(7)).toBe(4 * choose(13, 7))
+    // Six of one suit plus one of the other three suits
+    expect(handsWithLength(6)).toBe(4 * choose(13, 6) * 39)
+    // The best 7-card flush can never be shorter than two cards
+    expect(handsWithLength(1)).toBe(0)
+    // The strongest flush never loses; it only ties the same ranks held in another suit
+    const best = classes[classes.length - 1]
+    expect(best.ranks).toEqual([14, 13, 12, 11, 10, 9, 8])
+    expect(best.dealerWins).toBe(0)
+    expect(best.pushes).toBe(best.hands * 3)
+  })
+
+  it('straight flush lengths cover every hand', () => {
+    const counts = countStraightFlushLengths()
+    expect(counts.reduce((sum, n) => sum + n, 0)).toBe(choose(52, 7))
+    // 7-card straight flushes: 8 sequences (A-7 low through 8-A) in 4 suits
+    expect(counts[7]).toBe(32)
+  })
+
+  it('returns probabilities in the SimulationSummary shape', () => {
+    const summary = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    expect(summary.handDistribution.totalHands).toBe(1)
+    expect(summary.handDistribution.aboveMinimum + summary.handDistribution.belowMinimum).toBeCloseTo(1, 12)
+    const flushRush = summary.results.find(r => r.betType === 'Flush Rush Bonus')!
+    expect(flushRush.totalBet).toBeCloseTo(1, 12)
+    expect(flushRush.expectedReturn).toBeCloseTo(-5.3038, 3)
+    // Exact results have a variance but no sampling error
+    expect(flushRush.stdDevPerHand).toBeGreaterThan(0)
+    expect(flushRush.standardError).toBe(0)
+    // Par sheet: a 7-card flush is 4 * C(13, 7) of C(52, 7) hands
+    const sevenCard = flushRush.paylines.find(l => l.payline === '7 Card Flush')!
+    expect(sevenCard.hits).toBeCloseTo((4 * choose(13, 7)) / choose(52, 7), 15)
+    expect(flushRush.paylines.reduce((sum, l) => sum + l.returnContribution, 0)).toBeCloseTo(flushRush.expectedReturn, 9)
+  })
+
+  it('breaks 3-card flushes down by high card', () => {
+    const { classes } = analyzeFlushClasses()
+    const stats = performExactAnalysis(payoutConfig, thresholdStrategy(9)).handDistribution.threeCardFlushByHighCard
+    expect(stats.map(s => s.highCard)).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14])
+    const threeCardHands = classes.filter(c => c.ranks.length === 3).reduce((sum, c) => sum + c.hands, 0)
+    expect(stats.reduce((sum, s) => sum + s.hands, 0)).toBeCloseTo(threeCardHands / choose(52, 7), 12)
+    for (const s of stats) {
+      expect(s.foldEV).toBe(-1)
+      expect(s.dealerQualificationRate).toBeGreaterThan(70)
+      expect(s.dealerQualificationRate).toBeLessThan(80)
+    }
+    // Higher 3-card flushes are worth more to play; folding beats playing at 10-high but not at Jack-high
+    const ev = (highCard: number) => stats.find(s => s.highCard === highCard)!.playEV
+    expect(ev(14)).toBeGreaterThan(ev(13))
+    expect(ev(10)).toBeLessThan(-1)
+    expect(ev(11)).toBeGreaterThan(-1)
+  })
+
+  it('gives the exact frequency of every flush shape', () => {
+    const { flushShapes, flushOutcomes } = performExactAnalysis(payoutConfig, thresholdStrategy(9)).handDistribution
+    expect(flushOutcomes).toBeUndefined()
+    expect(flushShapes.reduce((sum, s) => sum + s.player, 0)).toBeCloseTo(1, 12)
+    // Par sheet: 5 or more cards of one suit
+    const fivePlus = 4 * (choose(13, 5) * choose(39, 2) + choose(13, 6) * 39 + choose(13, 7)) / choose(52, 7)
+    expect(flushShapes.filter(s => s.length >= 5).reduce((sum, s) => sum + s.playerFrequency, 0)).toBeCloseTo(fivePlus * 100, 10)
+    expect(flushShapes.every(s => s.dealer === s.player)).toBe(true)
+    const sevenAce = flushShapes.find(s => s.length === 7 && s.highCard === 14)!
+    expect(sevenAce.player).toBeCloseTo(4 * choose(12, 6) / choose(52, 7), 15)
+  })
+
+  it('breaks the base game down exactly', () => {
+    const { results, baseGame } = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    const base = results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    expect(baseGame.outcomes.reduce((sum, o) => sum + o.hands, 0)).toBeCloseTo(1, 12)
+    expect(baseGame.outcomes.reduce((sum, o) => sum + o.returnContribution, 0)).toBeCloseTo(base.expectedReturn, 9)
+    // Either side is as likely to hold the stronger flush
+    const wins = (outcome: string) => baseGame.outcomes.find(o => o.outcome === outcome)!.hands
+    expect(wins('playerWins')).toBeCloseTo(wins('dealerWins'), 12)
+    expect(baseGame.dealerQualificationRate).toBeGreaterThan(75)
+    expect(baseGame.dealerQualificationRate).toBeLessThan(76)
+    const [ante, play] = baseGame.wagers
+    expect(ante.totalBet).toBeCloseTo(1, 12)
+    expect(ante.totalWon - ante.totalBet + play.totalWon - play.totalBet).toBeCloseTo(base.totalWon - base.totalBet, 12)
+    expect(play.standardError).toBe(0)
+  })
+
+  it('gives the base game edge per Ante as well as per dollar wagered', () => {
+    const { results } = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    const base = results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    expect(base.totalInitialBet).toBeCloseTo(1, 12)
+    expect(base.averageBet).toBeGreaterThan(1)
+    expect(base.returnPerInitialBet).toBeCloseTo(base.expectedReturn * base.averageBet, 9)
+    // Bonus bets are all staked up front
+    for (const bonus of results.filter(r => r !== base)) {
+      expect(bonus.averageBet).toBeCloseTo(1, 12)
+      expect(bonus.returnPerInitialBet).toBeCloseTo(bonus.expectedReturn, 9)
+    }
+  })
+
+  it('gives the exact volatility index and hit frequency of each bet', () => {
+    const { results, baseGame } = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    for (const result of [...results, ...baseGame.wagers]) {
+      expect(result.volatilityIndex).toBeCloseTo(VOLATILITY_INDEX_Z * result.stdDevPerUnit, 12)
+      expect(result.hitFrequency).toBeGreaterThan(0)
+    }
+    const base = results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    // The Ante is one unit, so the base game's SD per unit is its SD per hand
+    expect(base.stdDevPerUnit).toBeCloseTo(base.stdDevPerHand, 12)
+    for (const bonus of results.filter(r => r.paylines.length > 0)) {
+      const paying = bonus.paylines.filter(line => line.payout > 0)
+      expect(bonus.hitFrequency).toBeCloseTo(paying.reduce((sum, line) => sum + line.hitFrequency, 0), 9)
+      // A bet paying odds p with probability q and losing otherwise: E[net^2] = sum q p^2 + (1 - sum q)
+      const meanSquare = paying.reduce((sum, line) => sum + (line.hitFrequency / 100) * line.payout ** 2, 0) + 1 - bonus.hitFrequency / 100
+      const mean = bonus.expectedReturn / 100
+      expect(bonus.stdDevPerUnit).toBeCloseTo(Math.sqrt(meanSquare - mean * mean), 9)
+    }
+  })
+
+  it('agrees with a seeded Monte Carlo run within sampling error', async () => {
+    const exact = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    const sampled = await performSimulation(100000, payoutConfig, thresholdStrategy(9), mulberry32(2024))
+    const tolerance: { [betType: string]: number } = {
+      'Base Game (Ante + Play)': 1,
+      'Flush Rush Bonus': 2,
+      'Super Flush Rush Bonus': 5
+    }
+    for (const r of exact.results) {
+      const s = sampled.results.find(x => x.betType === r.betType)!
+      expect(Math.abs(s.expectedReturn - r.expectedReturn)).toBeLessThan(tolerance[r.betType])
+      expect(Math.abs(s.winRate - r.winRate)).toBeLessThan(1)
+      expect(Math.abs(s.hitFrequency - r.hitFrequency)).toBeLessThan(1)
+      expect(Math.abs(s.volatilityIndex - r.volatilityIndex) / r.volatilityIndex).toBeLessThan(0.15)
+    }
+    expect(Math.abs(sampled.handDistribution.aboveMinimumPercentage - exact.handDistribution.aboveMinimumPercentage)).toBeLessThan(1)
+    const sampledAce = sampled.handDistribution.threeCardFlushByHighCard.find(s => s.highCard === 14)!
+    const exactAce = exact.handDistribution.threeCardFlushByHighCard.find(s => s.highCard === 14)!
+    expect(Math.abs(sampledAce.frequency - exactAce.frequency)).toBeLessThan(0.5)
+    expect(Math.abs(sampledAce.playEV - exactAce.playEV)).toBeLessThan(0.1)
+    expect(Math.abs(sampled.baseGame.dealerQualificationRate - exact.baseGame.dealerQualificationRate)).toBeLessThan(0.5)
+    for (const shape of exact.handDistribution.flushShapes) {
+      const sampledShape = sampled.handDistribution.flushShapes.find(s => s.length === shape.length && s.highCard === shape.highCard)!
+      expect(Math.abs(sampledShape.playerFrequency - shape.playerFrequency)).toBeLessThan(0.5)
+      expect(Math.abs(sampledShape.dealerFrequency - shape.dealerFrequency)).toBeLessThan(0.5)
+    }
+  }, 20000)
+  it('applies configurable game rules', async () => {
+    const standard = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    const rules: GameRulesConfig = { ...DEFAULT_GAME_RULES, tie: { ante: 'lose', play: 'lose' } }
+    const tiesLose = performExactAnalysis(payoutConfig, thresholdStrategy(9), rules)
+    const baseGame = (summary: typeof standard) => summary.results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    expect(baseGame(tiesLose).expectedReturn).toBeLessThan(baseGame(standard).expectedReturn)
+    expect(baseGame(tiesLose).handsPushed).toBe(0)
+
+    // A stricter qualifier is counted separately and agrees with sampling under the same rules
+    const strict: GameRulesConfig = { ...DEFAULT_GAME_RULES, dealerQualifier: { minFlushLength: 4, minHighCard: 2 } }
+    const exact = performExactAnalysis(payoutConfig, thresholdStrategy(9), strict)
+    const sampled = await performSimulation(50000, payoutConfig, thresholdStrategy(9), mulberry32(99), undefined, strict)
+    expect(Math.abs(baseGame(sampled).expectedReturn - baseGame(exact).expectedReturn)).toBeLessThan(1.5)
+    expect(baseGame(exact).expectedReturn).not.toBeCloseTo(baseGame(standard).expectedReturn, 1)
+  }, 20000)
+})
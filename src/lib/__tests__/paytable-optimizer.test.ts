@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_PAYOUT_CONFIG } from '../paytables'
+import { paytableLineProbabilities, performExactAnalysis } from '../exact-analysis'
+import { optimizePaytable } from '../paytable-optimizer'
+import { thresholdStrategy } from '../simulation-core'
+
+describe('paytable optimizer', () => {
+  it('line probabilities reproduce the exact bonus return', () => {
+    const paytable = DEFAULT_PAYOUT_CONFIG.flushRush
+    const probabilities = paytableLineProbabilities(paytable)
+    const expected = probabilities.reduce((sum, p, i) => sum + p * (paytable.lines[i].payout + 1), 0) - 1
+    const exact = performExactAnalysis(DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9)).results.find(r => r.betType === 'Flush Rush Bonus')!
+    expect(expected * 100).toBeCloseTo(exact.expectedReturn, 9)
+  })
+
+  it('finds ranked tables within the target that respect locks, bounds and monotonicity', () => {
+    const template = DEFAULT_PAYOUT_CONFIG.flushRush
+    const { candidates, exhaustive, evaluated } = optimizePaytable(template, {
+      targetReturn: { min: -5.5, max: -4.5 },
+      constraints: [{ minPayout: 100 }, {}, {}, { locked: true }]
+    })
+    expect(exhaustive).toBe(true)
+    expect(evaluated).toBeGreaterThan(0)
+    expect(candidates.length).toBe(10)
+    for (const candidate of candidates) {
+      const payouts = candidate.paytable.lines.map(l => l.payout)
+      expect(candidate.expectedReturn).toBeGreaterThanOrEqual(-5.5)
+      expect(candidate.expectedReturn).toBeLessThanOrEqual(-4.5)
+      expect(candidate.houseEdge).toBe(-candidate.expectedReturn)
+      expect(payouts[0]).toBeGreaterThanOrEqual(100)
+      expect(payouts[3]).toBe(2)
+      expect(payouts).toEqual([...payouts].sort((a, b) => b - a))
+      // Every candidate's return is exact
+      const exact = performExactAnalysis({ ...DEFAULT_PAYOUT_CONFIG, flushRush: candidate.paytable }, thresholdStrategy(9))
+      expect(exact.results.find(r => r.betType === 'Flush Rush Bonus')!.expectedReturn).toBeCloseTo(candidate.expectedReturn, 9)
+    }
+    const distances = candidates.map(c => Math.abs(c.expectedReturn + 5))
+    expect(distances).toEqual([...distances].sort((a, b) => a - b))
+    // The published table's return is within the range, so nothing better than it can be missing
+    expect(distances[0]).toBeLessThanOrEqual(Math.abs(-5.3038 + 5))
+  })
+
+  it('is exhaustive when the budget exactly covers the search', () => {
+    const options = { targetReturn: { min: -5.5, max: -4.5 }, constraints: [{ minPayout: 100 }, {}, {}, { locked: true }] }
+    const { evaluated, candidates } = optimizePaytable(DEFAULT_PAYOUT_CONFIG.flushRush, options)
+    const exactBudget = optimizePaytable(DEFAULT_PAYOUT_CONFIG.flushRush, { ...options, maxEvaluations: evaluated })
+    expect(exactBudget).toMatchObject({ evaluated, exhaustive: true })
+    expect(exactBudget.candidates).toEqual(candidates)
+    expect(optimizePaytable(DEFAULT_PAYOUT_CONFIG.flushRush, { ...options, maxEvaluations: evaluated - 1 }))
+      .toMatchObject({ evaluated: evaluated - 1, exhaustive: false })
+  })
+
+  it('returns no candidates when the target is unreachable', () => {
+    const result = optimizePaytable(DEFAULT_PAYOUT_CONFIG.superFlushRush, {
+      targetReturn: { min: -1, max: 0 },
+      constraints: DEFAULT_PAYOUT_CONFIG.superFlushRush.lines.map(() => ({ locked: true }))
+    })
+    expect(result.candidates).toEqual([])
+    expect(result.evaluated).toBe(0)
+  })
+})
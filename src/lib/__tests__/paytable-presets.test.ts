@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { BUILT_IN_PRESETS, exportPresets, mergePresets, parsePresetFile, PRESET_FILE_VERSION, PaytablePreset } from '../paytable-presets'
+import { DEFAULT_PAYOUT_CONFIG, validatePayoutConfig } from '../paytables'
+
+const threeCardFlush: PaytablePreset = {
+  name: 'Pays 3-card flush',
+  description: 'Adds an Ace-high 3-card flush line',
+  payoutConfig: {
+    ...DEFAULT_PAYOUT_CONFIG,
+    flushRush: {
+      hand: 'flush',
+      lines: [...DEFAULT_PAYOUT_CONFIG.flushRush.lines, { length: 3, minHighCard: 14, payout: 1 }]
+    }
+  }
+}
+
+describe('paytable presets', () => {
+  it('built-in presets are valid and round-trip through the file format', () => {
+    const { presets, errors } = parsePresetFile(exportPresets([...BUILT_IN_PRESETS, threeCardFlush]))
+    expect(errors).toEqual([])
+    expect(presets.map(p => p.name)).toEqual([...BUILT_IN_PRESETS.map(p => p.name), threeCardFlush.name])
+    expect(presets[presets.length - 1].payoutConfig).toEqual(threeCardFlush.payoutConfig)
+    // Imported presets are never built-in
+    expect(presets.every(p => !p.builtIn)).toBe(true)
+  })
+
+  it('every built-in preset passes the import validation on its own', () => {
+    for (const preset of BUILT_IN_PRESETS) {
+      expect(preset.builtIn).toBe(true)
+      expect(validatePayoutConfig(preset.payoutConfig)).toEqual([])
+      const { presets, errors } = parsePresetFile(exportPresets([preset]))
+      expect(errors).toEqual([])
+      expect(presets[0]).toEqual({ name: preset.name, description: preset.description, payoutConfig: preset.payoutConfig })
+    }
+    expect(new Set(BUILT_IN_PRESETS.map(p => p.name)).size).toBe(BUILT_IN_PRESETS.length)
+  })
+
+  it('rejects files that are not a supported presets file', () => {
+    expect(parsePresetFile('{ nope')).toMatchObject({ presets: [], errors: [expect.stringMatching(/^not valid JSON/)] })
+    expect(parsePresetFile('[]').errors[0]).toMatch(/unsupported file version/)
+    expect(parsePresetFile(JSON.stringify({ version: PRESET_FILE_VERSION + 1, presets: [] })).errors).toEqual([
+      `unsupported file version ${PRESET_FILE_VERSION + 1}, expected ${PRESET_FILE_VERSION}`
+    ])
+    expect(parsePresetFile(JSON.stringify({ version: PRESET_FILE_VERSION })).errors).toEqual(['presets must be an array'])
+  })
+
+  it('reports every malformed preset and imports none of them', () => {
+    const file = {
+      version: PRESET_FILE_VERSION,
+      presets: [
+        threeCardFlush,
+        { name: 'Broken', payoutConfig: { flushRush: { hand: 'flush', lines: [{ length: 4, payout: 'two' }] }, superFlushRush: DEFAULT_PAYOUT_CONFIG.superFlushRush } },
+        { name: threeCardFlush.name, payoutConfig: DEFAULT_PAYOUT_CONFIG },
+        { payoutConfig: DEFAULT_PAYOUT_CONFIG }
+      ]
+    }
+    const { presets, errors } = parsePresetFile(JSON.stringify(file))
+    expect(presets).toEqual([])
+    expect(errors).toEqual([
+      'preset "Broken": flushRush: line 1: payout must be a positive number',
+      `preset "${threeCardFlush.name}": name is used more than once`,
+      'preset 4: name must be a non-empty string'
+    ])
+  })
+
+  it('merges by name and protects built-in presets', () => {
+    const renamed = { ...threeCardFlush, description: 'updated' }
+    const merged = mergePresets([threeCardFlush], [renamed])
+    expect(merged.presets).toEqual([renamed])
+
+    const clash = mergePresets([threeCardFlush], [{ name: BUILT_IN_PRESETS[0].name, payoutConfig: DEFAULT_PAYOUT_CONFIG }])
+    expect(clash.presets).toEqual([threeCardFlush])
+    expect(clash.errors[0]).toMatch(/built-in preset/)
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDeck,
+  DEFAULT_PAYOUT_CONFIG,
+  findBestStraight,
+  findBestStraightFlush,
+  findLongestStraightFlush,
+  matchPaytableLine,
+  mulberry32,
+  paytableLineLabel,
+  performSimulation,
+  shuffleDeckWithRng,
+  sortHandBySuitThenRank,
+  thresholdStrategy,
+  validatePaytable,
+  validatePayoutConfig,
+  Card,
+  Paytable,
+  PayoutConfig
+} from '../simulation-core'
+import { choose, countStraightFlushes, performExactAnalysis } from '../exact-analysis'
+
+const flush = (...ranks: number[]) => ranks.map(rank => ({ suit: '♠', rank })) as Card[]
+
+// Pays 3-card flushes, and 3-card straight flushes only when Queen-high or better
+const threeCardPayoutConfig: PayoutConfig = {
+  flushRush: {
+    hand: 'flush',
+    lines: [
+      { length: 7, payout: 100 },
+      { length: 6, payout: 20 },
+      { length: 5, payout: 10 },
+      { length: 4, payout: 2 },
+      { length: 3, minHighCard: 14, payout: 1 }
+    ]
+  },
+  superFlushRush: {
+    hand: 'straightFlush',
+    lines: [
+      { length: 7, payout: 500 },
+      { length: 6, payout: 200 },
+      { length: 5, payout: 100 },
+      { length: 4, payout: 50 },
+      { length: 3, minHighCard: 12, payout: 25 }
+    ]
+  }
+}
+
+describe('paytables', () => {
+  it('the built-in presets are valid', () => {
+    expect(validatePayoutConfig(DEFAULT_PAYOUT_CONFIG)).toEqual([])
+    expect(validatePayoutConfig(threeCardPayoutConfig)).toEqual([])
+  })
+
+  it('reports malformed paytables', () => {
+    expect(validatePayoutConfig(null)).toEqual(['payout configuration must be an object'])
+    expect(validatePaytable({ hand: 'pair', lines: [] })[0]).toMatch(/hand must be/)
+    expect(validatePaytable({ hand: 'flush', lines: 'none' })).toEqual(['lines must be an array'])
+    const errors = validatePaytable({
+      hand: 'flush',
+      lines: [{ length: 8, payout: 2 }, { length: 4, payout: -1 }, { length: 3, minHighCard: 13, maxHighCard: 10, payout: 1 }]
+    })
+    expect(errors).toEqual([
+      'line 1: length must be a whole number from 1 to 7',
+      'line 2: payout must be a positive number',
+      'line 3: minHighCard is above maxHighCard'
+    ])
+    expect(validatePayoutConfig({ flushRush: DEFAULT_PAYOUT_CONFIG.flushRush })[0]).toBe('superFlushRush: must be an object')
+  })
+
+  it('reports lines that an earlier line always matches first', () => {
+    const paytable: Paytable = {
+      hand: 'flush',
+      lines: [{ length: 3, minHighCard: 10, payout: 2 }, { length: 3, minHighCard: 12, payout: 5 }, { length: 3, payout: 1 }]
+    }
+    expect(validatePaytable(paytable)).toEqual(['line 2 can never pay because line 1 matches first'])
+  })
+
+  it('matches the first line whose condition holds and names it', () => {
+    const paytable = threeCardPayoutConfig.superFlushRush
+    expect(matchPaytableLine(paytable, { length: 3, highCard: 11 })).toBeUndefined()
+    const line = matchPaytableLine(paytable, { length: 3, highCard: 13 })!
+    expect(line.payout).toBe(25)
+    expect(paytableLineLabel(paytable, line)).toBe('3 Card Straight Flush (Q-high or better)')
+    expect(paytableLineLabel(paytable, paytable.lines[0])).toBe('7 Card Straight Flush')
+    expect(paytableLineLabel(paytable, { ...line, label: 'Royal' })).toBe('Royal')
+  })
+
+  it('finds the best straight flush, counting a low Ace', () => {
+    expect(findBestStraight(flush(14, 3, 2))).toEqual({ length: 3, highCard: 3 })
+    expect(findBestStraight(flush(14, 13, 12, 5, 4, 3))).toEqual({ length: 3, highCard: 14 })
+    expect(findBestStraight(flush(14))).toEqual({ length: 1, highCard: 14 })
+    expect(findBestStraight([])).toEqual({ length: 0, highCard: 0 })
+
+    // Agrees with findLongestStraightFlush on the length
+    const rng = mulberry32(3)
+    const deck = createDeck()
+    for (let i = 0; i < 500; i++) {
+      const hand = sortHandBySuitThenRank(shuffleDeckWithRng(deck, rng).slice(0, 7))
+      expect(findBestStraightFlush(hand).length).toBe(findLongestStraightFlush(hand))
+    }
+  })
+
+  it('exact straight flush counts cover every hand', () => {
+    const counts = countStraightFlushes()
+    expect(counts.reduce((sum, c) => sum + c.hands, 0)).toBe(choose(52, 7))
+    // A-K-Q-J-10 suited plus any 2 of the other 47 cards, except the 46 pairs holding the suited 9
+    const aceHighFive = counts.find(c => c.length === 5 && c.highCard === 14)!
+    expect(aceHighFive.hands).toBe(4 * (choose(47, 2) - 46))
+  })
+
+  it('exact and sampled analyses apply conditional paytable lines', async () => {
+    const exact = performExactAnalysis(threeCardPayoutConfig, thresholdStrategy(9))
+    const standard = performExactAnalysis(DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9))
+    const bonus = (summary: typeof exact, betType: string) => summary.results.find(r => r.betType === betType)!
+    const payline = (summary: typeof exact, name: string) => bonus(summary, 'Super Flush Rush Bonus').paylines.find(l => l.payline === name)!
+    // Queen-high or better is 3 of the 12 possible 3-card straight flush tops (3-high through Ace-high)
+    expect(payline(exact, '3 Card Straight Flush (Q-high or better)').hitFrequency)
+      .toBeLessThan(payline(standard, '3 Card Straight Flush').hitFrequency * 0.3)
+    expect(payline(exact, '4 Card Straight Flush').hitFrequency).toBeCloseTo(payline(standard, '4 Card Straight Flush').hitFrequency, 12)
+    expect(bonus(exact, 'Flush Rush Bonus').paylines.map(l => l.payline)).toContain('3 Card Flush (A-high or better)')
+
+    const sampled = await performSimulation(50000, threeCardPayoutConfig, thresholdStrategy(9), mulberry32(8))
+    expect(Math.abs(bonus(sampled, 'Flush Rush Bonus').expectedReturn - bonus(exact, 'Flush Rush Bonus').expectedReturn)).toBeLessThan(3)
+    expect(Math.abs(bonus(sampled, 'Super Flush Rush Bonus').expectedReturn - bonus(exact, 'Super Flush Rush Bonus').expectedReturn)).toBeLessThan(8)
+  }, 20000)
+})
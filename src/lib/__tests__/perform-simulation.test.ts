@@ -1,11 +1,8 @@
 import { describe, it, expect } from 'vitest'
 import { mulberry32 } from '../simulation-core'
-import { performSimulation } from '../simulation-core'
+import { DEFAULT_PAYOUT_CONFIG, createSimulationRng, performSimulation, resolveRunRng, thresholdStrategy } from '../simulation-core'
 
-const payoutConfig = {
-  flushRush: { sevenCard: 100, sixCard: 20, fiveCard: 10, fourCard: 2 },
-  superFlushRush: { sevenCardStraight: 500, sixCardStraight: 200, fiveCardStraight: 100, fourCardStraight: 50, threeCardStraight: 9 }
-}
+const payoutConfig = DEFAULT_PAYOUT_CONFIG
 
 describe('performSimulation determinism', () => {
   it('two runs with the same seeded RNG produce identical summaries', async () => {
@@ -17,10 +14,20 @@ describe('performSimulation determinism', () => {
     const numHands = 2000
     const minThreeCardFlushRank = 9
 
-    const s1 = await performSimulation(numHands, payoutConfig as any, minThreeCardFlushRank, rngA)
-    const s2 = await performSimulation(numHands, payoutConfig as any, minThreeCardFlushRank, rngB)
+    const s1 = await performSimulation(numHands, payoutConfig as any, thresholdStrategy(minThreeCardFlushRank), rngA)
+    const s2 = await performSimulation(numHands, payoutConfig as any, thresholdStrategy(minThreeCardFlushRank), rngB)
 
     // stringified comparison is a simple deep equality check
     expect(JSON.stringify(s1)).toBe(JSON.stringify(s2))
   }, 20000)
+
+  it('reproduces an unseeded run from its reported seed typed back in as a string', async () => {
+    // The UI seed field and the CLI --seed flag pass the printed seed as text
+    const rng = resolveRunRng(undefined, 'pcg32')
+    expect(typeof rng.seed).toBe('number')
+    const unseeded = await performSimulation(2000, payoutConfig, thresholdStrategy(9), createSimulationRng(rng.seed, rng.algorithm))
+    const typed = await performSimulation(2000, payoutConfig, thresholdStrategy(9), createSimulationRng(String(rng.seed), 'pcg32'))
+    expect(typed.results).toEqual(unseeded.results)
+    expect(typed.handDistribution).toEqual(unseeded.handDistribution)
+  }, 20000)
 })
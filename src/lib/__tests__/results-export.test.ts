@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { formatHandRecord, formatResultsTable, formatRngSelfTest, summaryToCsv } from '../results-export'
+import { runRngAlgorithmSelfTest } from '../rng-self-test'
+import { performExactAnalysis } from '../exact-analysis'
+import { DEFAULT_PAYOUT_CONFIG, mulberry32, performSimulation, replayHand, thresholdStrategy } from '../simulation-core'
+
+describe('results export', () => {
+  it('renders the results and comparisons as a table and CSV', async () => {
+    const comparisons = [{ name: 'Same, "quoted"', payoutConfig: DEFAULT_PAYOUT_CONFIG }]
+    const summary = await performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(4), undefined, undefined, { comparisons })
+
+    const table = formatResultsTable(summary).split('\n')
+    expect(table[0]).toMatch(/^Bet Type\s+Total Bet/)
+    expect(table.filter(line => line.startsWith('Flush Rush Bonus'))).toHaveLength(1)
+    expect(table.some(line => line.includes('+0.000 pp'))).toBe(true)
+    expect(table.some(line => /^Base game: the dealer qualifies on \d+\.\d\d% of hands$/.test(line))).toBe(true)
+    expect(table.filter(line => /^(Fold|Dealer does not qualify|Player wins|Dealer wins|Push) /.test(line))).toHaveLength(5)
+    expect(table.filter(line => /^(Ante|Play) /.test(line))).toHaveLength(2)
+    expect(formatResultsTable({ ...summary, partial: true })).toMatch(/^Partial results: the run was cancelled after 2,000 hands\n/)
+    expect(formatResultsTable({ ...summary, rng: { algorithm: 'pcg32', seed: 42 } })).toMatch(/^Generator: PCG32, seed 42\n/)
+    expect(formatResultsTable({ ...summary, rng: { algorithm: 'crypto' } })).toMatch(/^Generator: Crypto\n/)
+
+    const rows = summaryToCsv(summary).trimEnd().split('\n')
+    expect(rows).toHaveLength(1 + summary.results.length + 2)
+    expect(rows[0].split(',')[0]).toBe('paytable')
+    const flushRush = summary.results.find(r => r.betType === 'Flush Rush Bonus')!
+    expect(rows[2].split(',').slice(0, 3)).toEqual(['Current', 'Flush Rush Bonus', '2000'])
+    expect(Number(rows[2].split(',')[9])).toBe(flushRush.expectedReturn)
+    const header = rows[0].split(',')
+    expect(Number(rows[2].split(',')[header.indexOf('volatilityIndex')])).toBe(flushRush.volatilityIndex)
+    expect(Number(rows[2].split(',')[header.indexOf('hitFrequency')])).toBe(flushRush.hitFrequency)
+    // Names holding quotes or commas are quoted
+    expect(rows[rows.length - 1]).toMatch(/^"Same, ""quoted""",Super Flush Rush Bonus,.*,0,0,0$/)
+  })
+
+  it('puts the exact return, volatility index and hit frequency next to the sampled ones', async () => {
+    const summary = await performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(4))
+    const exact = performExactAnalysis(DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9))
+    const exactFlushRush = exact.results.find(r => r.betType === 'Flush Rush Bonus')!
+
+    const table = formatResultsTable(summary, exact).split('\n')
+    expect(table[0]).toMatch(/Exact Return\s+Exact VI\s+Exact Hit Freq$/)
+    expect(table.find(line => line.startsWith('Flush Rush Bonus'))).toMatch(
+      new RegExp(`${exactFlushRush.expectedReturn.toFixed(3)}%\\s+${exactFlushRush.volatilityIndex.toFixed(2)}\\s+${exactFlushRush.hitFrequency.toFixed(2)}%$`)
+    )
+    expect(formatResultsTable(summary).split('\n')[2]).toMatch(/-\s+-\s+-$/)
+
+    const rows = summaryToCsv(summary, exact).trimEnd().split('\n').map(row => row.split(','))
+    const field = (name: string) => Number(rows.find(row => row[1] === 'Flush Rush Bonus')![rows[0].indexOf(name)])
+    expect(field('stdDevPerUnit')).toBe(summary.results.find(r => r.betType === 'Flush Rush Bonus')!.stdDevPerUnit)
+    expect(field('exactExpectedReturn')).toBe(exactFlushRush.expectedReturn)
+    expect(field('exactStdDevPerUnit')).toBe(exactFlushRush.stdDevPerUnit)
+    expect(field('exactVolatilityIndex')).toBe(exactFlushRush.volatilityIndex)
+    expect(field('exactHitFrequency')).toBe(exactFlushRush.hitFrequency)
+    // Without an exact analysis the exact columns are left empty
+    const plain = summaryToCsv(summary).split('\n')[1].split(',')
+    expect(plain[rows[0].indexOf('exactVolatilityIndex')]).toBe('')
+  })
+
+  it('renders a generator self-test', () => {
+    const text = formatRngSelfTest(runRngAlgorithmSelfTest('xoshiro128ss', 3, 2000))
+    expect(text).toMatch(/^xoshiro128\*\*, seed 3: 2,000 shuffled decks\n/)
+    expect(text.split('\n').filter(line => / pass$/.test(line))).toHaveLength(3)
+    expect(text).toMatch(/All tests passed$/)
+  })
+
+  it('renders a replayed hand with every settlement', () => {
+    const record = replayHand('qa', 734, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9))
+    const lines = formatHandRecord(record).split('\n')
+    expect(lines[0]).toBe('Hand 734')
+    expect(lines[1]).toMatch(/^Player: (\S+ ){6}\S+ {2}\(best flush /)
+    expect(lines[3]).toMatch(record.playWager > 0 ? /^Decision: Play \dx, / : /^Decision: Fold$/)
+    expect(lines.filter(line => /^(Ante|Play|Flush Rush Bonus|Super Flush Rush Bonus) /.test(line))).toHaveLength(record.bets.length)
+  })
+})
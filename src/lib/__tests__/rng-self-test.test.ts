@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { RNG_SELF_TEST_SIGNIFICANCE, runRngAlgorithmSelfTest, runRngSelfTest } from '../rng-self-test'
+import { RNG_ALGORITHMS, mulberry32 } from '../rng'
+
+describe('rng self-test', () => {
+  it('passes every registered generator', () => {
+    for (const { id } of RNG_ALGORITHMS) {
+      const result = runRngAlgorithmSelfTest(id, 'self-test', 20000)
+      expect(result.tests.map(test => test.name)).toEqual(['Card positions', 'Serial correlation', 'Draw correlation'])
+      expect(result.tests.every(test => test.pValue >= RNG_SELF_TEST_SIGNIFICANCE)).toBe(true)
+      expect(result).toMatchObject({ algorithm: id, hands: 20000, passed: true })
+    }
+  })
+
+  it('fails a generator with a short period', () => {
+    // A 64-value linear congruential generator repeats the same few shuffles
+    let x = 0
+    const result = runRngSelfTest(() => {
+      x = (x * 1103515245 + 12345) % 64
+      return x / 64
+    }, 5000)
+    expect(result.passed).toBe(false)
+    expect(result.tests.find(test => test.name === 'Card positions')!.passed).toBe(false)
+  })
+
+  it('catches correlation between successive hands', () => {
+    // Good values within each hand, but hands are dealt in identical pairs
+    const result = runRngSelfTest({ forHand: hand => mulberry32(Math.floor(hand / 2)) }, 5000)
+    expect(result.tests.find(test => test.name === 'Serial correlation')!.passed).toBe(false)
+  })
+})
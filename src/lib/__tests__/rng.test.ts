@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RNG_ALGORITHMS,
+  createHandRng,
+  createSimulationRng,
+  mulberry32,
+  pcg32,
+  resolveRunRng,
+  seedToUint32,
+  stringToSeed,
+  xoshiro128ss
+} from '../rng'
+import type { HandRng } from '../rng'
+
+const words = (rng: () => number, count: number) => Array.from({ length: count }, () => (rng() * 4294967296).toString(16).padStart(8, '0'))
+
+describe('rng', () => {
+  it('matches the reference outputs of xoshiro128** and PCG32', () => {
+    expect(words(xoshiro128ss(1, 2, 3, 4), 4)).toEqual(['00002d00', '00000000', '005a7080', '04389d80'])
+    // pcg32-demo: pcg32_srandom_r(&rng, 42u, 54u)
+    expect(words(pcg32([0, 42], [0, 54]), 6)).toEqual(['a15c02b7', '7b47f409', 'ba1d3330', '83d2f293', 'bfa4784b', 'cbed606e'])
+  })
+
+  it('deals each hand from the seed and hand number alone, for every seeded algorithm', () => {
+    for (const { id, seeded } of RNG_ALGORITHMS) {
+      if (!seeded || id === 'crypto') continue
+      const rng = createHandRng(id, 11)
+      const first = words(rng.forHand(5), 8)
+      expect(words(rng.forHand(5), 8)).toEqual(first)
+      expect(words(createHandRng(id, 11).forHand(5), 8)).toEqual(first)
+      expect(words(rng.forHand(6), 8)).not.toEqual(first)
+      expect(words(createHandRng(id, 12).forHand(5), 8)).not.toEqual(first)
+      // Hands beyond 2^32 are distinct from those below it
+      expect(words(rng.forHand(5 + 4294967296), 8)).not.toEqual(first)
+    }
+    // The stream generators start each hand from a Philox-derived state rather than the raw seed
+    expect(words(createHandRng('mulberry32', 11).forHand(0), 4)).not.toEqual(words(mulberry32(11), 4))
+  })
+
+  it('resolves the generator and seed of a run', () => {
+    expect(resolveRunRng('abc')).toEqual({ algorithm: 'philox', seed: 'abc' })
+    expect(resolveRunRng()).toEqual({ algorithm: 'crypto' })
+    expect(resolveRunRng('abc', 'crypto')).toEqual({ algorithm: 'crypto' })
+    const generated = resolveRunRng(undefined, 'xoshiro128ss')
+    expect(generated.algorithm).toBe('xoshiro128ss')
+    expect(Number.isInteger(generated.seed)).toBe(true)
+
+    expect(typeof createSimulationRng()).toBe('function')
+    const seeded = createSimulationRng('abc', 'pcg32') as HandRng
+    expect(words(seeded.forHand(3), 4)).toEqual(words(createHandRng('pcg32', stringToSeed('abc')).forHand(3), 4))
+
+    // Digits naming a 32-bit value are that number; anything else is hashed
+    expect(seedToUint32('2809943553')).toBe(2809943553)
+    expect(seedToUint32(2809943553)).toBe(2809943553)
+    expect(seedToUint32('4294967296')).toBe(stringToSeed('4294967296'))
+    expect(seedToUint32('qa')).toBe(stringToSeed('qa'))
+  })
+})
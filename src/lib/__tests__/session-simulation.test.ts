@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SESSION_CONFIG,
+  buildDistributionStats,
+  handsPerSession,
+  performSessionSimulation,
+  validateSessionConfig
+} from '../session-simulation'
+import type { SessionConfig } from '../session-simulation'
+import { BONUS_BETS, DEFAULT_PAYOUT_CONFIG, createSimulationRng, performSimulation, thresholdStrategy } from '../simulation-core'
+
+describe('session simulation', () => {
+  it('summarises a distribution with nearest-rank percentiles and a histogram', () => {
+    const stats = buildDistributionStats([...Array(100).keys()].map(i => i + 1), 10)
+    expect(stats).toMatchObject({ count: 100, mean: 50.5, min: 1, max: 100 })
+    expect(stats.percentiles).toEqual([
+      { percentile: 5, value: 5 },
+      { percentile: 25, value: 25 },
+      { percentile: 50, value: 50 },
+      { percentile: 75, value: 75 },
+      { percentile: 95, value: 95 }
+    ])
+    expect(stats.histogram).toHaveLength(10)
+    expect(stats.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(100)
+    expect(stats.histogram[9].count).toBe(10)
+    // Identical values fall in one bin
+    expect(buildDistributionStats([3, 3, 3]).histogram).toEqual([{ lower: 3, upper: 4, count: 3, frequency: 100 }])
+  })
+
+  it('validates session configurations', () => {
+    expect(validateSessionConfig(DEFAULT_SESSION_CONFIG)).toEqual([])
+    expect(validateSessionConfig({ ...DEFAULT_SESSION_CONFIG, bankroll: 15, sideBets: ['Flush Rush Bonus'] }))
+      .toEqual(['the bankroll must cover the table minimum and side bets of one hand'])
+    expect(validateSessionConfig({ ...DEFAULT_SESSION_CONFIG, tableMinimum: 0, hours: 0, sideBets: ['Lucky Bonus'] })).toEqual([
+      'the table minimum must be positive',
+      'the session length must be positive',
+      'unknown side bet "Lucky Bonus"'
+    ])
+  })
+
+  it('settles sessions the way performSimulation settles the same hands', async () => {
+    // A bankroll no session can lose keeps every hand at full stakes
+    const config: SessionConfig = { bankroll: 1000000, tableMinimum: 1, sideBets: BONUS_BETS.map(b => b.betType), handsPerHour: 25, hours: 2 }
+    const sessions = await performSessionSimulation(40, config, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng('sessions', 'philox'))
+    const hands = await performSimulation(40 * handsPerSession(config), DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng('sessions', 'philox'))
+    const net = hands.results.reduce((sum, r) => sum + r.totalWon - r.totalBet, 0)
+    expect(sessions.handsPerSession).toBe(50)
+    expect(sessions.riskOfRuin).toBe(0)
+    expect(sessions.timeToRuin).toBeUndefined()
+    expect((sessions.endingBankroll.mean - config.bankroll) * 40).toBeCloseTo(net, 6)
+  })
+
+  it('ends ruined sessions early and measures their drawdown', async () => {
+    const config: SessionConfig = { ...DEFAULT_SESSION_CONFIG, bankroll: 30, sideBets: ['Super Flush Rush Bonus'] }
+    const summary = await performSessionSimulation(500, config, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(7, 'philox'))
+    expect(summary.sessions).toBe(500)
+    expect(summary.riskOfRuin).toBeGreaterThan(50)
+    expect(summary.timeToRuin!.count).toBe(summary.ruinedSessions)
+    expect(summary.timeToRuin!.max).toBeLessThanOrEqual(config.hours)
+    // A ruined player is left with less than one hand's initial wagers, and lost at least the difference
+    expect(summary.endingBankroll.min).toBeGreaterThanOrEqual(0)
+    expect(summary.endingBankroll.percentiles[0].value).toBeLessThan(20)
+    expect(summary.peakDrawdown.max).toBeGreaterThan(10)
+    expect(summary.endingBankroll.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500)
+
+    const again = await performSessionSimulation(500, config, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(7, 'philox'))
+    expect(again).toEqual(summary)
+  })
+
+  it('counts ruin only when a session is cut short', async () => {
+    // A bankroll of one Ante cannot cover a Play, so every hand folds and loses it all
+    const config: SessionConfig = { bankroll: 10, tableMinimum: 10, sideBets: [], handsPerHour: 1, hours: 1 }
+    const full = await performSessionSimulation(20, config, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(3, 'philox'))
+    expect(full.endingBankroll.max).toBe(0)
+    expect(full.ruinedSessions).toBe(0)
+    expect(full.riskOfRuin).toBe(0)
+    expect(full.timeToRuin).toBeUndefined()
+
+    const cutShort = await performSessionSimulation(20, { ...config, hours: 2 }, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(3, 'philox'))
+    expect(cutShort.riskOfRuin).toBe(100)
+    expect(cutShort.timeToRuin).toMatchObject({ min: 1, max: 1 })
+  })
+
+  it('rejects an invalid configuration and stops early when cancelled', async () => {
+    await expect(performSessionSimulation(10, { ...DEFAULT_SESSION_CONFIG, handsPerHour: 0 }, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(1)))
+      .rejects.toThrow('hands per hour must be positive')
+    const controller = new AbortController()
+    const summary = await performSessionSimulation(1000, DEFAULT_SESSION_CONFIG, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createSimulationRng(1), undefined, progress => {
+      if (progress > 0) controller.abort()
+    }, controller.signal)
+    expect(summary.partial).toBe(true)
+    expect(summary.sessions).toBeLessThan(1000)
+    expect(summary.endingBankroll.count).toBe(summary.sessions)
+  })
+})
@@ -14,16 +14,39 @@ import {
   dealerQualifies,
   compareFlushes,
   getMaxPlayWager,
-  calculateFlushRushPayout,
-  calculateSuperFlushRushPayout,
+  matchPaytableLine,
+  mergePayoutComparisons,
+  mergeSimulationSummaries,
+  precisionTargetsMet,
+  estimateHandsForPrecision,
+  createPauseController,
+  splitHands,
+  philox4x32,
+  philoxHandRng,
+  createSimulationRng,
+  replayHand,
+  DEFAULT_PAYOUT_CONFIG,
   performSimulation,
   highCard,
   playerShouldFold,
+  buildSimulationResults,
+  buildThreeCardFlushStats,
+  createThreeCardFlushTallies,
+  mergeThreeCardFlushTallies,
+  baseGameNet,
+  baseGameOutcome,
+  settleBaseGame,
+  settleBaseGameWagers,
+  DEFAULT_GAME_RULES,
+  GameRulesConfig,
+  NO_WIN_PAYLINE,
   BetResults,
   PayoutConfig,
+  SimulationSnapshot,
   Card,
   Suit,
-  Rank
+  Rank,
+  thresholdStrategy
 } from '../simulation-core'
 
 describe('simulation-core public API', () => {
@@ -115,23 +138,17 @@ describe('simulation-core public API', () => {
     expect(getMaxPlayWager(7, 1)).toBe(3)
     expect(getMaxPlayWager(5, 2)).toBe(4) // ante 2, five-card -> ante*2 => 4
 
-    const cfg: PayoutConfig = {
-      flushRush: { sevenCard: 100, sixCard: 20, fiveCard: 10, fourCard: 2 },
-      superFlushRush: { sevenCardStraight: 500, sixCardStraight: 200, fiveCardStraight: 100, fourCardStraight: 50, threeCardStraight: 9 }
-    }
-    expect(calculateFlushRushPayout(7, cfg)).toBe(100)
-    expect(calculateFlushRushPayout(4, cfg)).toBe(2)
-    expect(calculateSuperFlushRushPayout(6, cfg)).toBe(200)
-    expect(calculateSuperFlushRushPayout(2, cfg)).toBe(0)
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+    expect(matchPaytableLine(cfg.flushRush, { length: 7, highCard: 14 })?.payout).toBe(100)
+    expect(matchPaytableLine(cfg.flushRush, { length: 4, highCard: 9 })?.payout).toBe(2)
+    expect(matchPaytableLine(cfg.superFlushRush, { length: 6, highCard: 11 })?.payout).toBe(200)
+    expect(matchPaytableLine(cfg.superFlushRush, { length: 2, highCard: 5 })).toBeUndefined()
   })
 
   it('performSimulation smoke test returns correct shape and counts', async () => {
-    const cfg: PayoutConfig = {
-      flushRush: { sevenCard: 100, sixCard: 20, fiveCard: 10, fourCard: 2 },
-      superFlushRush: { sevenCardStraight: 500, sixCardStraight: 200, fiveCardStraight: 100, fourCardStraight: 50, threeCardStraight: 9 }
-    }
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
     const rng = mulberry32(42)
-    const summary = await performSimulation(20, cfg, 9, rng)
+    const summary = await performSimulation(20, cfg, thresholdStrategy(9), rng)
     expect(summary.handDistribution.totalHands).toBe(20)
     expect(Array.isArray(summary.results)).toBe(true)
     // totals should be numeric
@@ -141,13 +158,378 @@ describe('simulation-core public API', () => {
     }
   })
 
-  it('produces deterministic results for same seed', async () => {
-    const cfg: PayoutConfig = {
-      flushRush: { sevenCard: 100, sixCard: 20, fiveCard: 10, fourCard: 2 },
-      superFlushRush: { sevenCardStraight: 500, sixCardStraight: 200, fiveCardStraight: 100, fourCardStraight: 50, threeCardStraight: 9 }
+  it('buildSimulationResults reports variance, standard error and a 95% confidence interval', () => {
+    const bet = new BetResults()
+    bet.recordWin(1, 2) // net +2
+    bet.recordLoss(1) // net -1
+    bet.recordLoss(1) // net -1
+    bet.recordPush(1) // net 0
+    const [result] = buildSimulationResults({ 'Test Bet': bet })
+    expect(result.handsPushed).toBe(1)
+    expect(result.sumNet).toBe(0)
+    expect(result.sumNetSquared).toBe(6)
+    expect(result.variance).toBeCloseTo(1.5, 12)
+    expect(result.stdDevPerHand).toBeCloseTo(Math.sqrt(1.5), 12)
+    // SE of the mean net (sd / sqrt(4)) relative to an average bet of 1, in percent
+    expect(result.standardError).toBeCloseTo((Math.sqrt(1.5) / 2) * 100, 10)
+    expect(result.confidenceInterval95.lower).toBeCloseTo(-1.96 * result.standardError, 1)
+    expect(result.confidenceInterval95.upper).toBeCloseTo(1.96 * result.standardError, 1)
+  })
+
+  it('merging per-worker results with addResult matches a single accumulation', async () => {
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+    const partA = await performSimulation(300, cfg, thresholdStrategy(9), mulberry32(1))
+    const partB = await performSimulation(500, cfg, thresholdStrategy(9), mulberry32(2))
+    const merged: { [betType: string]: BetResults } = {}
+    for (const r of [...partA.results, ...partB.results]) {
+      if (!merged[r.betType]) merged[r.betType] = new BetResults()
+      merged[r.betType].addResult(r)
+    }
+    for (const r of buildSimulationResults(merged)) {
+      const a = partA.results.find(x => x.betType === r.betType)!
+      const b = partB.results.find(x => x.betType === r.betType)!
+      expect(r.handsWon + r.handsLost + r.handsPushed).toBe(800)
+      expect(r.sumNet).toBeCloseTo(a.sumNet + b.sumNet, 9)
+      expect(r.sumNet).toBeCloseTo(r.totalWon - r.totalBet, 9)
+      expect(r.totalInitialBet).toBe(a.totalInitialBet + b.totalInitialBet)
+      expect(r.confidenceInterval95.lower).toBeLessThan(r.expectedReturn)
+      expect(r.confidenceInterval95.upper).toBeGreaterThan(r.expectedReturn)
+    }
+  })
+
+  it('paylines break down side-bet hits and sum to the expected return', async () => {
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+    const summary = await performSimulation(2000, cfg, thresholdStrategy(9), mulberry32(7))
+    const flushRush = summary.results.find(r => r.betType === 'Flush Rush Bonus')!
+    expect(flushRush.paylines.map(l => l.payline)).toContain('4 Card Flush')
+    expect(flushRush.paylines[flushRush.paylines.length - 1].payline).toBe(NO_WIN_PAYLINE)
+    for (const r of summary.results.filter(r => r.paylines.length > 0)) {
+      const hits = r.paylines.reduce((sum, l) => sum + l.hits, 0)
+      const contribution = r.paylines.reduce((sum, l) => sum + l.returnContribution, 0)
+      expect(hits).toBe(2000)
+      expect(contribution).toBeCloseTo(r.expectedReturn, 9)
+    }
+    const fourCard = flushRush.paylines.find(l => l.payline === '4 Card Flush')!
+    expect(fourCard.payout).toBe(2)
+    expect(fourCard.net).toBe(fourCard.hits * 2)
+  })
+
+  it('tallies 3-card flushes by high card and merges them across runs', async () => {
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+    const a = await performSimulation(400, cfg, thresholdStrategy(9), mulberry32(11))
+    const b = await performSimulation(600, cfg, thresholdStrategy(9), mulberry32(12))
+    const totals = createThreeCardFlushTallies()
+    mergeThreeCardFlushTallies(totals, a.handDistribution.threeCardFlushByHighCard)
+    mergeThreeCardFlushTallies(totals, b.handDistribution.threeCardFlushByHighCard)
+    const merged = buildThreeCardFlushStats(totals, 1000)
+    for (const stats of merged) {
+      const fromA = a.handDistribution.threeCardFlushByHighCard.find(s => s.highCard === stats.highCard)!
+      const fromB = b.handDistribution.threeCardFlushByHighCard.find(s => s.highCard === stats.highCard)!
+      expect(stats.hands).toBe(fromA.hands + fromB.hands)
+      expect(stats.dealerQualified).toBeLessThanOrEqual(stats.hands)
+      expect(stats.frequency).toBeCloseTo((stats.hands / 1000) * 100, 12)
+    }
+    // A 3-card flush played at 1x Play nets +1 (dealer does not qualify), +2, 0 or -2 per hand
+    const ace = merged.find(s => s.highCard === 14)!
+    expect(Math.abs(ace.playNet)).toBeLessThanOrEqual(2 * ace.hands)
+  })
+
+  it('breaks the base game down by how hands end and by wager', async () => {
+    const summary = await performSimulation(3000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(31))
+    const { baseGame, handDistribution } = summary
+    const base = summary.results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    expect(baseGame.outcomes.map(o => o.outcome)).toEqual(['fold', 'dealerNotQualified', 'playerWins', 'dealerWins', 'push'])
+    expect(baseGame.outcomes.reduce((sum, o) => sum + o.hands, 0)).toBe(3000)
+    expect(baseGame.outcomes.find(o => o.outcome === 'fold')!.hands).toBe(handDistribution.belowMinimum)
+    expect(baseGame.outcomes.reduce((sum, o) => sum + o.returnContribution, 0)).toBeCloseTo(base.expectedReturn, 9)
+    // The dealer qualifies the same whether or not the player plays
+    const notQualified = handDistribution.flushOutcomes!.reduce((sum, o) => sum + o.dealerNotQualified, 0)
+    expect(baseGame.dealerQualified).toBe(3000 - notQualified)
+    expect(baseGame.dealerQualificationRate).toBeCloseTo((baseGame.dealerQualified / 3000) * 100, 12)
+
+    const [ante, play] = baseGame.wagers
+    expect([ante.betType, play.betType]).toEqual(['Ante', 'Play'])
+    expect(ante.totalBet + play.totalBet).toBe(base.totalBet)
+    expect(ante.totalWon + play.totalWon).toBe(base.totalWon)
+    expect(ante.totalBet).toBe(3000)
+    expect(play.handsWon + play.handsLost + play.handsPushed).toBe(handDistribution.aboveMinimum)
+    // With standard rules a Play wager pushes when the dealer does not qualify
+    expect(baseGame.outcomes.find(o => o.outcome === 'dealerNotQualified')!.playNet).toBe(0)
+  })
+
+  it('tallies both sides\' flush shapes and the outcome by flush lengths, merged across runs', async () => {
+    const a = await performSimulation(700, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(21))
+    const b = await performSimulation(300, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(22))
+    const { flushShapes, flushOutcomes } = mergeSimulationSummaries([a, b]).handDistribution
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+    expect(sum(flushShapes.map(s => s.player))).toBe(1000)
+    expect(sum(flushShapes.map(s => s.dealer))).toBe(1000)
+    expect(flushShapes.every(s => s.highCard > s.length && s.length >= 2)).toBe(true)
+    expect(sum(flushShapes.map(s => s.playerFrequency))).toBeCloseTo(100, 9)
+    for (const shape of flushShapes) {
+      const fromParts = [a, b].map(p => p.handDistribution.flushShapes.find(s => s.length === shape.length && s.highCard === shape.highCard)!)
+      expect(shape.player).toBe(fromParts[0].player + fromParts[1].player)
+    }
+
+    expect(flushOutcomes).toHaveLength(36)
+    expect(sum(flushOutcomes!.map(o => o.hands))).toBe(1000)
+    for (const cell of flushOutcomes!) {
+      expect(cell.playerWins + cell.dealerWins + cell.push + cell.dealerNotQualified).toBe(cell.hands)
+      // A longer flush always beats a shorter one, and hands of different lengths never tie
+      if (cell.playerLength > cell.dealerLength) expect(cell.dealerWins).toBe(0)
+      if (cell.playerLength < cell.dealerLength) expect(cell.playerWins).toBe(0)
+      if (cell.playerLength !== cell.dealerLength) expect(cell.push).toBe(0)
+    }
+    // The rows add up to the player's flush lengths
+    for (const length of [2, 3, 4, 5, 6, 7]) {
+      expect(sum(flushOutcomes!.filter(o => o.playerLength === length).map(o => o.hands)))
+        .toBe(sum(flushShapes.filter(s => s.length === length).map(s => s.player)))
+    }
+  })
+
+  it('baseGameNet settles a played hand', () => {
+    const flush = (...ranks: number[]) => ranks.map(rank => ({ suit: '♠', rank })) as Card[]
+    expect(baseGameNet(flush(14, 9, 2), flush(8, 7, 6), 1, 1)).toBe(1) // dealer does not qualify
+    expect(baseGameNet(flush(14, 9, 2), flush(13, 9, 2), 1, 1)).toBe(2)
+    expect(baseGameNet(flush(10, 9, 2), flush(5, 4, 3, 2), 1, 1)).toBe(-2)
+    expect(baseGameNet(flush(10, 9, 2), flush(10, 9, 2), 1, 1)).toBe(0)
+  })
+
+  it('game rules change the qualifier, Play limits and settlements', () => {
+    const flush = (...ranks: number[]) => ranks.map(rank => ({ suit: '♠', rank })) as Card[]
+    const rules: GameRulesConfig = {
+      dealerQualifier: { minFlushLength: 4, minHighCard: 10 },
+      maxPlayMultiples: [1, 1, 1, 1, 2, 3, 4, 4],
+      dealerNotQualified: { ante: 'push', play: 'push' },
+      tie: { ante: 'lose', play: 'push' }
+    }
+    expect(dealerQualifies(flush(14, 13, 12), rules)).toBe(false)
+    expect(dealerQualifies(flush(9, 4, 3, 2), rules)).toBe(false)
+    expect(dealerQualifies(flush(10, 4, 3, 2), rules)).toBe(true)
+    expect(getMaxPlayWager(4, 5, rules)).toBe(10)
+    expect(getMaxPlayWager(7, 5, rules)).toBe(20)
+    expect(baseGameOutcome(flush(14, 9, 2), flush(14, 13, 12), rules)).toBe('dealerNotQualified')
+    expect(baseGameNet(flush(14, 9, 2), flush(14, 13, 12), 1, 1, rules)).toBe(0)
+    expect(baseGameNet(flush(10, 9, 3, 2), flush(10, 9, 3, 2), 1, 2, rules)).toBe(-1)
+    expect(settleBaseGame('dealerNotQualified', 1, 3, DEFAULT_GAME_RULES)).toBe(1)
+    expect(settleBaseGame('push', 1, 3, DEFAULT_GAME_RULES)).toBe(0)
+  })
+
+  it('recordOutcome classifies partial settlements by their net', () => {
+    const totals = new BetResults()
+    totals.recordOutcome(2, 1)
+    totals.recordOutcome(2, -1)
+    totals.recordOutcome(2, 0)
+    expect(totals.handsWon).toBe(1)
+    expect(totals.handsLost).toBe(1)
+    expect(totals.handsPushed).toBe(1)
+    expect(totals.totalBet).toBe(6)
+    expect(totals.totalWon).toBe(6)
+  })
+
+  it('measures the return per initial bet apart from the return per dollar wagered', async () => {
+    const summary = await performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(5))
+    const base = summary.results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    // Every hand stakes a $1 Ante before deciding
+    expect(base.totalInitialBet).toBe(2000)
+    expect(base.averageBet).toBe(base.totalBet / 2000)
+    expect(base.returnPerInitialBet).toBeCloseTo(((base.totalWon - base.totalBet) / 2000) * 100, 9)
+    const [ante, play] = summary.baseGame.wagers
+    expect(ante.returnPerInitialBet).toBeCloseTo(ante.expectedReturn, 9)
+    expect(play.totalInitialBet).toBe(0)
+    expect(play.returnPerInitialBet).toBe(0)
+  })
+
+  it('scores comparison paytables on the same hands with paired differences', async () => {
+    const richer: PayoutConfig = {
+      ...DEFAULT_PAYOUT_CONFIG,
+      flushRush: { hand: 'flush', lines: DEFAULT_PAYOUT_CONFIG.flushRush.lines.map(l => (l.length === 4 ? { ...l, payout: 3 } : l)) }
+    }
+    const comparisons = [{ name: 'Same', payoutConfig: DEFAULT_PAYOUT_CONFIG }, { name: 'Richer', payoutConfig: richer }]
+    const summary = await performSimulation(3000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(21), undefined, undefined, { comparisons })
+    const [same, higher] = summary.comparisons!
+    expect(same.differences.every(d => d.difference === 0 && d.standardError === 0)).toBe(true)
+
+    const current = summary.results.find(r => r.betType === 'Flush Rush Bonus')!
+    const compared = higher.results.find(r => r.betType === 'Flush Rush Bonus')!
+    const difference = higher.differences.find(d => d.betType === 'Flush Rush Bonus')!
+    expect(difference.difference).toBeCloseTo(compared.expectedReturn - current.expectedReturn, 9)
+    // Every 4-card flush pays one more unit, so the difference is the 4-card flush frequency
+    const fourCardHits = current.paylines.find(l => l.payline === '4 Card Flush')!.hits
+    expect(difference.difference).toBeCloseTo((fourCardHits / 3000) * 100, 9)
+    // Pairing removes the shared variance of the two returns
+    expect(difference.standardError).toBeLessThan(Math.hypot(current.standardError, compared.standardError) / 2)
+    expect(difference.confidenceInterval95.lower).toBeGreaterThan(0)
+    expect(higher.differences.find(d => d.betType === 'Super Flush Rush Bonus')!.difference).toBe(0)
+
+    // Merging runs over disjoint hands keeps the pairing
+    const partA = await performSimulation(1000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(1), undefined, undefined, { comparisons })
+    const partB = await performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(2), undefined, undefined, { comparisons })
+    const merged = mergePayoutComparisons([partA.comparisons!, partB.comparisons!])
+    const mergedDifference = merged[1].differences.find(d => d.betType === 'Flush Rush Bonus')!
+    expect(mergedDifference.hands).toBe(3000)
+    const partDifferences = [partA, partB].map(p => p.comparisons![1].differences.find(d => d.betType === 'Flush Rush Bonus')!)
+    expect(mergedDifference.difference).toBeCloseTo((partDifferences[0].difference * 1000 + partDifferences[1].difference * 2000) / 3000, 9)
+    expect(merged[1].results.find(r => r.betType === 'Flush Rush Bonus')!.totalBet).toBe(3000)
+  })
+
+  it('splits a run across workers and merges their summaries', async () => {
+    expect(splitHands(10, 3)).toEqual([4, 3, 3])
+
+    const rng = philoxHandRng(5)
+    const [a, b] = await Promise.all([[700, 0], [300, 700]].map(([hands, firstHand]) =>
+      performSimulation(hands, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng, undefined, undefined, { firstHand })))
+    const merged = mergeSimulationSummaries([a, b])
+    // Seeded hands depend only on their index, so the shares add up to the whole run
+    const whole = await performSimulation(1000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng)
+    expect(merged.results).toEqual(whole.results)
+    expect(merged.handDistribution).toEqual(whole.handDistribution)
+    expect(merged.baseGame).toEqual(whole.baseGame)
+    expect(merged.handDistribution.totalHands).toBe(1000)
+    expect(merged.handDistribution.aboveMinimum).toBe(a.handDistribution.aboveMinimum + b.handDistribution.aboveMinimum)
+    const base = merged.results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    const parts = [a, b].map(p => p.results.find(r => r.betType === 'Base Game (Ante + Play)')!)
+    expect(base.totalBet).toBe(parts[0].totalBet + parts[1].totalBet)
+    expect(base.sumNet).toBeCloseTo(parts[0].sumNet + parts[1].sumNet, 9)
+    expect(merged.comparisons).toBeUndefined()
+  })
+
+  it('stops early when cancelled and marks the results partial', async () => {
+    const aborted = new AbortController()
+    aborted.abort()
+    const none = await performSimulation(1000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(3), undefined, undefined, { signal: aborted.signal })
+    expect(none.partial).toBe(true)
+    expect(none.handDistribution.totalHands).toBe(0)
+    expect(none.handDistribution.aboveMinimumPercentage).toBe(0)
+
+    const abort = new AbortController()
+    const summary = await performSimulation(100000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(3), progress => {
+      if (progress >= 30) abort.abort()
+    }, undefined, { signal: abort.signal })
+    const played = summary.handDistribution.totalHands
+    expect(summary.partial).toBe(true)
+    expect(played).toBeGreaterThan(0)
+    expect(played).toBeLessThan(100000)
+    expect(summary.handDistribution.aboveMinimum + summary.handDistribution.belowMinimum).toBe(played)
+    expect(summary.results.find(r => r.betType === 'Flush Rush Bonus')!.totalBet).toBe(played)
+    // The hands played are the first hands of the uncancelled run
+    const prefix = await performSimulation(played, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(3))
+    expect(summary.results).toEqual(prefix.results)
+    expect(prefix.partial).toBeUndefined()
+  })
+
+  it('holds a paused run until it is resumed', async () => {
+    const pause = createPauseController()
+    const states: boolean[] = []
+    pause.subscribe(paused => states.push(paused))
+    pause.pause()
+    let progress = 0
+    const run = performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(9), p => { progress = p }, undefined, { pause })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(progress).toBe(0)
+    pause.resume()
+    const summary = await run
+    expect(states).toEqual([true, false])
+    expect(summary.partial).toBeUndefined()
+    expect(summary.results).toEqual((await performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(9))).results)
+
+    // Cancelling a paused run ends it without waiting for a resume
+    const abort = new AbortController()
+    pause.pause()
+    const paused = performSimulation(2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(9), () => {}, undefined, { signal: abort.signal, pause })
+    await new Promise(resolve => setTimeout(resolve, 10))
+    abort.abort()
+    expect((await paused).partial).toBe(true)
+  })
+
+  it('reports running totals that match a run of that many hands', async () => {
+    const snapshots: SimulationSnapshot[] = []
+    await performSimulation(5000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(6), undefined, undefined, { onSnapshot: s => snapshots.push(s) })
+    expect(snapshots.length).toBe(99)
+    expect(snapshots.every((s, i) => i === 0 || s.hands > snapshots[i - 1].hands)).toBe(true)
+    const middle = snapshots[40]
+    const prefix = await performSimulation(middle.hands, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(6))
+    expect(middle.results).toEqual(prefix.results)
+  })
+
+  it('checks precision targets and estimates the hands needed to meet them', async () => {
+    const { results } = await performSimulation(4000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(14))
+    const flushRush = results.find(r => r.betType === 'Flush Rush Bonus')!
+    expect(precisionTargetsMet(results, { 'Flush Rush Bonus': flushRush.standardError })).toBe(true)
+    expect(precisionTargetsMet(results, { 'Flush Rush Bonus': flushRush.standardError / 2 })).toBe(false)
+    expect(precisionTargetsMet(results, { 'Unknown Bet': 100 })).toBe(false)
+    // Halving the standard error takes four times the hands
+    expect(estimateHandsForPrecision(results, 4000, { 'Flush Rush Bonus': flushRush.standardError / 2 })).toBe(16000)
+    expect(estimateHandsForPrecision(results, 4000, { 'Flush Rush Bonus': flushRush.standardError * 2 })).toBe(4000)
+  })
+
+  it('records a sample of hands in full without changing the results', async () => {
+    const traced = await performSimulation(1000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(21), undefined, undefined, { trace: { maxHands: 20, every: 7 } })
+    const plain = await performSimulation(1000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), mulberry32(21))
+    expect(traced.results).toEqual(plain.results)
+    expect(plain.handRecords).toBeUndefined()
+
+    const records = traced.handRecords!
+    expect(records.map(r => r.hand)).toEqual(Array.from({ length: 20 }, (_, i) => i * 7))
+    for (const record of records) {
+      expect(record.playerCards).toHaveLength(7)
+      expect(record.dealerCards).toHaveLength(7)
+      expect(record.playerFlush).toEqual(findBestFlush(record.playerCards))
+      expect(record.dealerQualified).toBe(dealerQualifies(record.dealerFlush))
+      const ante = record.bets.find(b => b.betType === 'Ante')!
+      const play = record.bets.find(b => b.betType === 'Play')
+      if (record.playWager === 0) {
+        expect(record.outcome).toBeUndefined()
+        expect(play).toBeUndefined()
+        expect(ante.net).toBe(-1)
+      } else {
+        expect(play!.wager).toBe(record.playWager)
+        expect(ante.net + play!.net).toBe(baseGameNet(record.playerFlush, record.dealerFlush, 1, record.playWager))
+      }
+      const flushRush = record.bets.find(b => b.betType === 'Flush Rush Bonus')!
+      const line = matchPaytableLine(DEFAULT_PAYOUT_CONFIG.flushRush, { length: record.playerFlush.length, highCard: highCard(record.playerFlush) })
+      expect(flushRush.net).toBe(line ? line.payout : -1)
+      expect(flushRush.payline === NO_WIN_PAYLINE).toBe(!line)
+    }
+
+    // The Ante and Play settle separately under house rules
+    const rules: GameRulesConfig = { ...DEFAULT_GAME_RULES, dealerNotQualified: { ante: 'push', play: 'win' } }
+    expect(settleBaseGameWagers('dealerNotQualified', 1, 3, rules)).toEqual({ ante: 0, play: 3 })
+    expect(settleBaseGameWagers('dealerWins', 1, 2)).toEqual({ ante: -1, play: -2 })
+  })
+
+  it('replays a hand of a seeded run without dealing the hands before it', async () => {
+    const strategy = thresholdStrategy(9)
+    const { handRecords } = await performSimulation(500, DEFAULT_PAYOUT_CONFIG, strategy, createSimulationRng(31), undefined, undefined, { trace: { maxHands: 5, every: 97 } })
+    expect(handRecords!.map(r => r.hand)).toEqual([0, 97, 194, 291, 388])
+    for (const record of handRecords!) {
+      expect(replayHand(31, record.hand, DEFAULT_PAYOUT_CONFIG, strategy)).toEqual(record)
+    }
+    expect(() => replayHand(31, -1, DEFAULT_PAYOUT_CONFIG, strategy)).toThrow('not a hand number')
+  })
+
+  it('deals seeded hands from Philox keyed by the hand index', () => {
+    // Known-answer vectors from the Random123 reference implementation
+    const hex = (words: number[]) => words.map(w => w.toString(16).padStart(8, '0')).join(' ')
+    expect(hex(philox4x32([0, 0, 0, 0], [0, 0]))).toBe('6627e8d5 e169c58d bc57ac4c 9b00dbd8')
+    expect(hex(philox4x32([0xffffffff, 0xffffffff, 0xffffffff, 0xffffffff], [0xffffffff, 0xffffffff]))).toBe('408f276d 41c83b0e a20bc7c6 6d5451fd')
+    expect(hex(philox4x32([0x243f6a88, 0x85a308d3, 0x13198a2e, 0x03707344], [0xa4093822, 0x299f31d0]))).toBe('d16cfe09 94fdcceb 5001e420 24126ea1')
+
+    const draws = (hand: number) => {
+      const rng = philoxHandRng(7).forHand(hand)
+      return Array.from({ length: 9 }, rng)
     }
-    const summary1 = await performSimulation(50, cfg, 9, mulberry32(12345))
-    const summary2 = await performSimulation(50, cfg, 9, mulberry32(12345))
+    expect(draws(3)).toEqual(draws(3))
+    expect(draws(3)).not.toEqual(draws(4))
+    expect(draws(3).slice(0, 4)).toEqual(philox4x32([3, 0, 0, 0], [7, 0]).map(w => w / 4294967296))
+    expect(draws(3).slice(4, 8)).toEqual(philox4x32([3, 0, 1, 0], [7, 0]).map(w => w / 4294967296))
+    expect(draws(2 ** 32 + 3)).not.toEqual(draws(3))
+  })
+
+  it('produces deterministic results for same seed', async () => {
+    const cfg: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+    const summary1 = await performSimulation(50, cfg, thresholdStrategy(9), mulberry32(12345))
+    const summary2 = await performSimulation(50, cfg, thresholdStrategy(9), mulberry32(12345))
     
     expect(summary1.handDistribution).toEqual(summary2.handDistribution)
     expect(summary1.results).toEqual(summary2.results)
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_PAYOUT_CONFIG, mulberry32, performSimulation, getPlayWager, flushKey, meetsMinRanks, playerShouldFold, thresholdStrategy, PayoutConfig, PlayerStrategy, Card } from '../simulation-core'
+import { analyzeFlushClasses, performExactAnalysis } from '../exact-analysis'
+import { evaluateStrategy, solveOptimalStrategy } from '../strategy-solver'
+
+const payoutConfig: PayoutConfig = DEFAULT_PAYOUT_CONFIG
+
+const flush = (...ranks: number[]) => ranks.map(rank => ({ suit: '♠', rank })) as Card[]
+
+describe('strategy solver', () => {
+  it('getPlayWager follows a threshold or a strategy table', () => {
+    expect(getPlayWager(flush(9, 3, 2), thresholdStrategy(9), 1)).toBe(1)
+    expect(getPlayWager(flush(8, 3, 2), thresholdStrategy(9), 1)).toBe(0)
+    expect(getPlayWager(flush(9, 7, 5, 3, 2), thresholdStrategy(9), 1)).toBe(2)
+    const table = { [flushKey(flush(9, 7, 5, 3, 2))]: 1, [flushKey(flush(8, 3, 2))]: 3 }
+    expect(flushKey(flush(8, 3, 2))).toBe('8-3-2')
+    // Under-betting is allowed, over-betting is capped at the maximum Play wager
+    expect(getPlayWager(flush(9, 7, 5, 3, 2), { type: 'table', table }, 1)).toBe(1)
+    expect(getPlayWager(flush(8, 3, 2), { type: 'table', table }, 1)).toBe(1)
+    // Flushes missing from the table fold
+    expect(getPlayWager(flush(14, 13, 12, 11), { type: 'table', table }, 1)).toBe(0)
+  })
+
+  it('rules strategies support kickers, under-betting and over-folding', () => {
+    const strategy: PlayerStrategy = {
+      type: 'rules',
+      rules: [
+        { flushLength: 3, minRanks: [10, 8, 6] },
+        { flushLength: 4, minRanks: [12] },
+        { flushLength: 5, playMultiple: 1 },
+        { flushLength: 6 },
+        { flushLength: 7, playMultiple: 0 }
+      ]
+    }
+    expect(getPlayWager(flush(10, 8, 6), strategy, 1)).toBe(1)
+    expect(getPlayWager(flush(10, 8, 5), strategy, 1)).toBe(0)
+    expect(getPlayWager(flush(10, 9, 2), strategy, 1)).toBe(1)
+    expect(getPlayWager(flush(11, 4, 3, 2), strategy, 1)).toBe(0)
+    expect(getPlayWager(flush(12, 4, 3, 2), strategy, 1)).toBe(1)
+    expect(getPlayWager(flush(9, 7, 5, 3, 2), strategy, 2)).toBe(2)
+    expect(getPlayWager(flush(9, 7, 6, 5, 3, 2), strategy, 1)).toBe(3)
+    expect(getPlayWager(flush(9, 8, 7, 6, 5, 3, 2), strategy, 1)).toBe(0)
+    // No rule for 2-card flushes: fold
+    expect(getPlayWager(flush(14, 13), strategy, 1)).toBe(0)
+    expect(meetsMinRanks(flush(10, 8, 6), [10, 8, 6])).toBe(true)
+    expect(meetsMinRanks(flush(10), [10, 8])).toBe(false)
+    // Strategies are plain data, so they survive the trip to a worker
+    expect(JSON.parse(JSON.stringify(strategy))).toEqual(strategy)
+  })
+
+  it('thresholdStrategy plays exactly the hands playerShouldFold keeps', () => {
+    const { classes } = analyzeFlushClasses()
+    for (const minRank of [0, 9, 12]) {
+      const strategy = thresholdStrategy(minRank)
+      for (const c of classes) {
+        const f = flush(...c.ranks)
+        expect(getPlayWager(f, strategy, 1) === 0).toBe(playerShouldFold(f, minRank))
+      }
+    }
+  })
+
+  it('evaluateStrategy matches the exact base-game return', () => {
+    const exact = performExactAnalysis(payoutConfig, thresholdStrategy(9))
+    const base = exact.results.find(r => r.betType === 'Base Game (Ante + Play)')!
+    const evaluation = evaluateStrategy(thresholdStrategy(9))
+    expect(evaluation.expectedReturn).toBeCloseTo(base.expectedReturn, 9)
+    expect(evaluation.expectedWager).toBeCloseTo(base.totalBet, 9)
+  })
+
+  it('finds a table that is never worse than the threshold rule', () => {
+    const solution = solveOptimalStrategy(thresholdStrategy(9))
+    expect(solution.entries.length).toBe(Object.keys(solution.table).length)
+    for (const entry of solution.entries) {
+      // Larger flushes are always played at the maximum, 2-card flushes are always folded
+      if (entry.ranks.length >= 4) expect(entry.playMultiple).toBe(entry.evByMultiple.length - 1)
+      if (entry.ranks.length === 2) expect(entry.playMultiple).toBe(0)
+      expect(entry.evByMultiple[entry.playMultiple]).toBe(Math.max(...entry.evByMultiple))
+    }
+    expect(solution.table['14-13-12']).toBe(1)
+    expect(solution.table['4-3-2']).toBe(0)
+    expect(solution.evGain).toBeGreaterThan(0)
+    expect(solution.optimal.expectedReturn).toBeGreaterThan(solution.baseline.expectedReturn)
+    // Every threshold is at best as good as the optimum
+    for (const minRank of [0, 9, 10, 11, 14]) {
+      expect(evaluateStrategy(thresholdStrategy(minRank)).expectedNet).toBeLessThanOrEqual(solution.optimal.expectedNet)
+    }
+  })
+
+  it('the strategy table can be fed back into the simulator', async () => {
+    const { strategy } = solveOptimalStrategy()
+    const summary = await performSimulation(500, payoutConfig, strategy, mulberry32(5))
+    expect(summary.handDistribution.aboveMinimum + summary.handDistribution.belowMinimum).toBe(500)
+    const exact = performExactAnalysis(payoutConfig, strategy)
+    expect(exact.handDistribution.aboveMinimum).toBeCloseTo(solveOptimalStrategy().entries.filter(e => e.playMultiple > 0).reduce((sum, e) => sum + e.probability, 0), 12)
+  })
+})
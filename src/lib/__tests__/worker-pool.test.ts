@@ -0,0 +1,266 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { build } from 'vite'
+import { createNodeWorkerPool } from '../node-worker-pool'
+import { runSimulationOnPool, runSimulationToPrecisionOnPool } from '../worker-pool'
+import {
+  DEFAULT_GAME_RULES,
+  DEFAULT_PAYOUT_CONFIG,
+  createHandRng,
+  philoxHandRng,
+  stringToSeed,
+  mergeSimulationSummaries,
+  createPauseController,
+  performSimulation,
+  precisionTargetsMet,
+  replayHand,
+  splitHands,
+  thresholdStrategy
+} from '../simulation-core'
+import type { SimulationRequest } from '../simulation-protocol'
+import type { SimulationSnapshot } from '../simulation-core'
+
+// Node runs workers as JavaScript, so the worker entry is bundled the way the CLI build does it
+let outDir: string
+let workerUrl: URL
+
+beforeAll(async () => {
+  outDir = mkdtempSync(join(tmpdir(), 'simulation-worker-'))
+  await build({
+    configFile: false,
+    logLevel: 'silent',
+    build: {
+      ssr: resolve(__dirname, '../simulation.node-worker.ts'),
+      outDir,
+      target: 'node20',
+      rollupOptions: { output: { entryFileNames: '[name].js' } }
+    }
+  })
+  workerUrl = pathToFileURL(join(outDir, 'simulation.node-worker.js'))
+}, 60000)
+
+afterAll(() => rmSync(outDir, { recursive: true, force: true }))
+
+const request = (numHands: number, randomSeed?: number | string): SimulationRequest => ({
+  numHands,
+  payoutConfig: DEFAULT_PAYOUT_CONFIG,
+  strategy: thresholdStrategy(9),
+  gameRules: DEFAULT_GAME_RULES,
+  randomSeed,
+  comparisons: []
+})
+
+describe('worker pool', () => {
+  it('aggregates a seeded multi-worker run exactly like the single-threaded shares and whole run', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 3)
+    const progress: number[] = []
+    const snapshots: SimulationSnapshot[] = []
+    try {
+      const summary = await runSimulationOnPool(
+        pool, 3001, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, p => progress.push(p), 'seed', 3,
+        { onSnapshot: snapshot => snapshots.push(snapshot) }
+      )
+      const rng = philoxHandRng(stringToSeed('seed'))
+      const [first, second, third] = splitHands(3001, 3)
+      const shares = await Promise.all([[first, 0], [second, first], [third, first + second]].map(([hands, firstHand]) =>
+        performSimulation(hands, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng, undefined, undefined, { firstHand })))
+      expect(summary).toEqual({ ...mergeSimulationSummaries(shares), rng: { algorithm: 'philox', seed: 'seed' } })
+      expect(summary.handDistribution.totalHands).toBe(3001)
+      // Hands are keyed by their index in the run, so the split does not change the totals
+      const whole = await performSimulation(3001, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng)
+      expect(summary.results).toEqual(whole.results)
+      expect(summary.handDistribution).toEqual(whole.handDistribution)
+      expect(progress.length).toBeGreaterThan(0)
+      expect(progress.every(p => p >= 0 && p <= 100)).toBe(true)
+      // Running totals combine every worker and end with the final results
+      expect(snapshots.length).toBeGreaterThan(3)
+      expect(snapshots[snapshots.length - 1]).toEqual({ hands: 3001, results: summary.results })
+      expect(snapshots.every(snapshot => snapshot.results.find(r => r.betType === 'Flush Rush Bonus')!.totalBet === snapshot.hands)).toBe(true)
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('deals the same hands with any generator on any number of workers, and records it', async () => {
+    const run = async (size: number, randomSeed?: number | string) => {
+      const pool = createNodeWorkerPool(workerUrl, size)
+      try {
+        return await runSimulationOnPool(
+          pool, 2001, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, randomSeed, size,
+          { rngAlgorithm: 'pcg32' }
+        )
+      } finally {
+        pool.terminate()
+      }
+    }
+    const [single, several] = [await run(1, 'pcg'), await run(3, 'pcg')]
+    expect(several).toEqual(single)
+    expect(single.rng).toEqual({ algorithm: 'pcg32', seed: 'pcg' })
+    const whole = await performSimulation(2001, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), createHandRng('pcg32', stringToSeed('pcg')))
+    expect(single.results).toEqual(whole.results)
+
+    // Without a seed the run is given one, which reproduces it
+    const unseeded = await run(2)
+    expect(unseeded.rng!.algorithm).toBe('pcg32')
+    expect((await run(3, unseeded.rng!.seed)).results).toEqual(unseeded.results)
+  }, 30000)
+
+  it('queues requests beyond its size and reuses idle workers', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 1)
+    try {
+      const summaries = await Promise.all([1, 2, 3].map(seed => pool.run(request(200, seed))))
+      expect(summaries.map(s => s.handDistribution.totalHands)).toEqual([200, 200, 200])
+      expect(summaries[0].results).not.toEqual(summaries[1].results)
+      const again = await pool.run(request(200, 1))
+      expect(again.results).toEqual(summaries[0].results)
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('rejects a request the worker fails on, and pending requests when terminated', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 1)
+    await expect(pool.run({ ...request(10, 1), strategy: null as any })).rejects.toThrow()
+    // The worker survives a failed request
+    expect((await pool.run(request(10, 1))).handDistribution.totalHands).toBe(10)
+
+    const running = pool.run(request(100000, 1))
+    const queued = pool.run(request(10, 1))
+    pool.terminate()
+    await expect(running).rejects.toThrow(/terminated/)
+    await expect(queued).rejects.toThrow(/terminated/)
+  }, 30000)
+
+  it('cancels a run across workers and returns the partial results', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 2)
+    const abort = new AbortController()
+    try {
+      const summary = await runSimulationOnPool(
+        pool, 2000000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, progress => {
+          if (progress > 1) abort.abort()
+        }, 1, 3, { signal: abort.signal }
+      )
+      // The third share was still queued behind the pool's two workers, so it never ran
+      expect(summary.partial).toBe(true)
+      expect(summary.handDistribution.totalHands).toBeGreaterThan(0)
+      expect(summary.handDistribution.totalHands).toBeLessThan(2000000 * 2 / 3)
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('pauses and resumes the workers of a run', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 1)
+    const pause = createPauseController()
+    pause.pause()
+    let progressed = false
+    try {
+      const run = pool.run(request(5000, 2), message => { if (message.type === 'progress' && message.progress > 0) progressed = true }, undefined, pause)
+      await new Promise(resolve => setTimeout(resolve, 300))
+      expect(progressed).toBe(false)
+      pause.resume()
+      const summary = await run
+      expect(progressed).toBe(true)
+      expect(summary.partial).toBeUndefined()
+      expect(summary.handDistribution.totalHands).toBe(5000)
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('runs batches until the precision targets are met, whatever the pool size', async () => {
+    const targets = { 'Flush Rush Bonus': 2 }
+    const run = async (size: number) => {
+      const pool = createNodeWorkerPool(workerUrl, size)
+      try {
+        return await runSimulationToPrecisionOnPool(
+          pool, targets, 1000000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, 'precise', 2000
+        )
+      } finally {
+        pool.terminate()
+      }
+    }
+    const [single, several] = [await run(1), await run(3)]
+    expect(several).toEqual(single)
+    const { precision } = single
+    expect(precision).toMatchObject({ targets, met: true, hands: precision!.batches * 2000 })
+    expect(single.handDistribution.totalHands).toBe(precision!.hands)
+    expect(precisionTargetsMet(single.results, targets)).toBe(true)
+
+    // The batches are the first hands of the seeded run, and one batch fewer would not have met the target
+    const rng = philoxHandRng(stringToSeed('precise'))
+    expect(single.results).toEqual((await performSimulation(precision!.hands, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng)).results)
+    const earlier = await performSimulation(precision!.hands - 2000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), rng)
+    expect(precisionTargetsMet(earlier.results, targets)).toBe(false)
+  }, 30000)
+
+  it('stops at the hand cap when the targets are out of reach', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 2)
+    try {
+      const summary = await runSimulationToPrecisionOnPool(
+        pool, { 'Super Flush Rush Bonus': 0.001 }, 5000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, 1, 2000
+      )
+      expect(summary.precision).toMatchObject({ met: false, hands: 5000, batches: 3 })
+      expect(summary.partial).toBeUndefined()
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('rejects a hand cap that leaves no batch to run', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 1)
+    try {
+      for (const maxHands of [0, -5, 2.5]) {
+        await expect(runSimulationToPrecisionOnPool(
+          pool, { 'Super Flush Rush Bonus': 0.05 }, maxHands, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES
+        )).rejects.toThrow('The hand cap must be a positive whole number of hands')
+      }
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('numbers traced hands across the shares of a run and replays them', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 2)
+    try {
+      const summary = await runSimulationOnPool(
+        pool, 1001, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, 'trace', 2,
+        { trace: { maxHands: 7, every: 100 } }
+      )
+      // The first 7 of every 100th hand of the run, though the second share starts at hand 501
+      expect(summary.handRecords!.map(r => r.hand)).toEqual([0, 100, 200, 300, 400, 500, 600])
+      // Any hand of the run can be replayed from the seed alone
+      for (const record of summary.handRecords!) {
+        expect(replayHand('trace', record.hand, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9))).toEqual(record)
+      }
+
+      const precise = await runSimulationToPrecisionOnPool(
+        pool, { 'Super Flush Rush Bonus': 0.001 }, 3000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, 1, 1000,
+        { trace: { maxHands: 5, every: 400 } }
+      )
+      expect(precise.handRecords!.map(r => r.hand)).toEqual([0, 400, 800, 1200, 1600])
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+
+  it('records the same trace of a seeded run on any number of workers', async () => {
+    const pool = createNodeWorkerPool(workerUrl, 3)
+    try {
+      const traced = async (workers: number, every: number) => (await runSimulationOnPool(
+        pool, 3000, DEFAULT_PAYOUT_CONFIG, thresholdStrategy(9), DEFAULT_GAME_RULES, undefined, 'trace', workers,
+        { trace: { maxHands: 12, every } }
+      )).handRecords!
+      for (const every of [1, 7, 500]) {
+        const single = await traced(1, every)
+        expect(single.map(r => r.hand)).toEqual(Array.from({ length: Math.min(12, Math.ceil(3000 / every)) }, (_, i) => i * every))
+        expect(await traced(3, every)).toEqual(single)
+      }
+    } finally {
+      pool.terminate()
+    }
+  }, 30000)
+})
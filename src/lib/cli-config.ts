@@ -0,0 +1,297 @@
+// cli-config.ts
+// Command-line options and JSON config files for the headless runner, resolved into the same
+// inputs the UI passes to a simulation. File access stays in the CLI entry point so this can be
+// tested without Node APIs.
+
+import { DEFAULT_GAME_RULES, DEFAULT_PAYOUT_CONFIG, RNG_ALGORITHMS, isRngAlgorithm, thresholdStrategy, validatePayoutConfig } from './simulation-core'
+import type { GameRulesConfig, PayoutComparisonConfig, PayoutConfig, PlayerStrategy, RngAlgorithm } from './simulation-core'
+import type { PaytablePreset } from './paytable-presets'
+
+export const DEFAULT_CLI_HANDS = 1000000
+export const DEFAULT_CLI_MIN_RANK = 9
+
+export interface CliOptions {
+  configFile?: string
+  presetsFile?: string
+  hands?: number
+  seed?: string
+  rng?: string
+  workers?: number
+  minRank?: number
+  optimal?: boolean
+  preset?: string
+  compare: string[] // Preset names to compare against
+  jsonFile?: string
+  csvFile?: string
+  replay?: number // Index of a hand to replay instead of running
+  selfTest?: boolean
+  quiet?: boolean
+  help?: boolean
+}
+
+// Shape of a config file; every field is optional and command-line flags take precedence
+export interface CliConfigFile {
+  hands?: number
+  seed?: number | string
+  rng?: RngAlgorithm
+  workers?: number
+  preset?: string // Name of a built-in preset or one in the presets file
+  payoutConfig?: PayoutConfig // Used when no preset is named
+  strategy?: PlayerStrategy // Used when no minimum rank is given
+  minThreeCardFlushRank?: number
+  optimal?: boolean // Play the optimal strategy instead
+  gameRules?: Partial<GameRulesConfig> // Merged over the default rules
+  compare?: string[] // Preset names
+  comparisons?: PayoutComparisonConfig[] // Inline comparison paytables
+}
+
+// Everything needed to run one simulation
+export interface CliRunConfig {
+  hands: number
+  seed?: number | string
+  rng?: RngAlgorithm // Philox when seeded, crypto otherwise
+  workers?: number // Defaults to the number of CPUs
+  payoutConfig: PayoutConfig
+  strategy: PlayerStrategy
+  optimal: boolean // Replace strategy with the optimal one for these rules before running
+  gameRules: GameRulesConfig
+  comparisons: PayoutComparisonConfig[]
+  replay?: number // Replay this hand of the seeded run rather than running it
+  selfTest?: boolean // Test the generator rather than running
+}
+
+export const CLI_USAGE = `Usage: i-luv-suits [options]
+
+Runs an I Luv Suits simulation and prints the results table.
+
+Options:
+  --config <file>     JSON config file (hands, seed, rng, workers, preset, payoutConfig, strategy,
+                      minThreeCardFlushRank, optimal, gameRules, compare, comparisons)
+  --presets <file>    Exported paytable presets file to look preset names up in
+  --hands <n>         Hands to simulate (default ${DEFAULT_CLI_HANDS})
+  --seed <seed>       Random seed; the same seed reproduces a run on any number of workers
+  --rng <algorithm>   Random number generator: ${RNG_ALGORITHMS.map(info => info.id).join(', ')}
+                      (default: philox with a seed, crypto without)
+  --workers <n>       Worker threads (default: number of CPUs)
+  --preset <name>     Paytable preset to simulate
+  --min-rank <rank>   Play 3-card flushes with this high card or better (0 = all, default ${DEFAULT_CLI_MIN_RANK})
+  --optimal           Play the optimal strategy
+  --compare <name>    Also score each hand with this preset's paytables (repeatable)
+  --json <file>       Write the run configuration and results as JSON
+  --csv <file>        Write the results as CSV
+  --replay <hand>     Print hand <hand> (numbered from 0, as in hand traces) of the run with this
+                      seed instead of running it
+  --self-test         Run the statistical self-tests of the generator instead of the simulation
+  --quiet             Do not report progress
+  --help              Show this message`
+
+type BooleanOption = 'optimal' | 'selfTest' | 'quiet' | 'help'
+type ValueOption = Exclude<keyof CliOptions, BooleanOption>
+
+const VALUE_FLAGS: Record<string, ValueOption> = {
+  '--config': 'configFile',
+  '--presets': 'presetsFile',
+  '--hands': 'hands',
+  '--seed': 'seed',
+  '--rng': 'rng',
+  '--workers': 'workers',
+  '--min-rank': 'minRank',
+  '--preset': 'preset',
+  '--compare': 'compare',
+  '--json': 'jsonFile',
+  '--csv': 'csvFile',
+  '--replay': 'replay'
+}
+
+const BOOLEAN_FLAGS: Record<string, BooleanOption> = {
+  '--optimal': 'optimal',
+  '--self-test': 'selfTest',
+  '--quiet': 'quiet',
+  '--help': 'help',
+  '-h': 'help'
+}
+
+const isWholeNumber = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min
+
+// Parses command-line arguments (without the node and script paths). Values may follow the flag
+// or be attached with '='.
+export function parseCliArgs(argv: string[]): { options: CliOptions; errors: string[] } {
+  const options: CliOptions = { compare: [] }
+  const errors: string[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, attached] = argv[i].startsWith('--') && argv[i].includes('=')
+      ? [argv[i].slice(0, argv[i].indexOf('=')), argv[i].slice(argv[i].indexOf('=') + 1)]
+      : [argv[i], undefined]
+
+    if (BOOLEAN_FLAGS[flag]) {
+      if (attached !== undefined) errors.push(`${flag} does not take a value`)
+      options[BOOLEAN_FLAGS[flag]] = true
+      continue
+    }
+    const key = VALUE_FLAGS[flag]
+    if (!key) {
+      errors.push(`unknown option ${argv[i]}`)
+      continue
+    }
+    const value = attached ?? argv[++i]
+    if (value === undefined) {
+      errors.push(`${flag} needs a value`)
+      continue
+    }
+
+    if (key === 'hands' || key === 'workers' || key === 'minRank' || key === 'replay') {
+      const number = Number(value)
+      const min = key === 'minRank' || key === 'replay' ? 0 : 1
+      if (!isWholeNumber(number, min)) errors.push(`${flag} must be a whole number${min === 0 ? '' : ' of at least 1'}`)
+      else options[key] = number
+    } else if (key === 'compare') {
+      options.compare.push(value)
+    } else {
+      options[key] = value
+    }
+  }
+  return { options, errors }
+}
+
+// Checks the parts of a game rules object the simulation reads
+function validateGameRules(rules: GameRulesConfig): string[] {
+  const errors: string[] = []
+  const settlements = ['win', 'push', 'lose']
+  const { dealerQualifier, maxPlayMultiples, dealerNotQualified, tie } = rules
+  if (!isWholeNumber(dealerQualifier?.minFlushLength, 0) || !isWholeNumber(dealerQualifier?.minHighCard, 0)) {
+    errors.push('gameRules.dealerQualifier needs whole minFlushLength and minHighCard')
+  }
+  if (!Array.isArray(maxPlayMultiples) || maxPlayMultiples.length !== 8 || !maxPlayMultiples.every(m => typeof m === 'number' && m >= 0)) {
+    errors.push('gameRules.maxPlayMultiples must list 8 non-negative multiples (flush lengths 0-7)')
+  }
+  for (const [name, settlement] of [['dealerNotQualified', dealerNotQualified], ['tie', tie]] as const) {
+    if (!settlements.includes(settlement?.ante) || !settlements.includes(settlement?.play)) {
+      errors.push(`gameRules.${name} ante and play must each be 'win', 'push' or 'lose'`)
+    }
+  }
+  return errors
+}
+
+// Checks every rule or table entry of a strategy the way getPlayWager reads it
+function validateStrategy(strategy: PlayerStrategy): string[] {
+  if (strategy?.type === 'rules' && Array.isArray(strategy.rules)) {
+    const errors: string[] = []
+    strategy.rules.forEach((rule, i) => {
+      const where = `strategy.rules[${i}]`
+      if (typeof rule !== 'object' || rule === null) {
+        errors.push(`${where} must be an object`)
+        return
+      }
+      if (!isWholeNumber(rule.flushLength, 0) || rule.flushLength > 7) errors.push(`${where}.flushLength must be a whole number from 0 to 7`)
+      if (rule.minRanks !== undefined && (!Array.isArray(rule.minRanks) || !rule.minRanks.every(rank => isWholeNumber(rank, 2) && rank <= 14))) {
+        errors.push(`${where}.minRanks must list ranks from 2 to 14`)
+      }
+      if (rule.playMultiple !== undefined && !(typeof rule.playMultiple === 'number' && rule.playMultiple >= 0)) {
+        errors.push(`${where}.playMultiple must be a non-negative number`)
+      }
+    })
+    return errors
+  }
+  if (strategy?.type === 'table' && typeof strategy.table === 'object' && strategy.table !== null && !Array.isArray(strategy.table)) {
+    return Object.entries(strategy.table)
+      .filter(([, multiple]) => !(typeof multiple === 'number' && multiple >= 0))
+      .map(([key]) => `strategy.table["${key}"] must be a non-negative play multiple`)
+  }
+  return ["strategy must be { type: 'rules', rules: [...] } or { type: 'table', table: {...} }"]
+}
+
+// Combines a parsed config file (or undefined) with the command-line options. Preset names are
+// looked up in presets, which should hold the built-in presets plus any from a presets file.
+export function resolveRunConfig(
+  file: unknown,
+  options: CliOptions,
+  presets: PaytablePreset[]
+): { config?: CliRunConfig; errors: string[] } {
+  if (file !== undefined && (typeof file !== 'object' || file === null || Array.isArray(file))) {
+    return { errors: ['config file must contain a JSON object'] }
+  }
+  const config = (file ?? {}) as CliConfigFile
+  const errors: string[] = []
+  const findPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name)
+    if (!preset) errors.push(`unknown preset "${name}"`)
+    return preset
+  }
+
+  const hands = options.hands ?? config.hands ?? DEFAULT_CLI_HANDS
+  if (!isWholeNumber(hands, 1)) errors.push('hands must be a whole number of at least 1')
+  const workers = options.workers ?? config.workers
+  if (workers !== undefined && !isWholeNumber(workers, 1)) errors.push('workers must be a whole number of at least 1')
+  const seed = options.seed ?? config.seed
+  if (seed !== undefined && typeof seed !== 'string' && typeof seed !== 'number') errors.push('seed must be a string or number')
+  const rng = options.rng ?? config.rng
+  if (rng !== undefined && !isRngAlgorithm(rng)) {
+    errors.push(`unknown rng "${rng}" (one of ${RNG_ALGORITHMS.map(info => info.id).join(', ')})`)
+  }
+
+  let payoutConfig = DEFAULT_PAYOUT_CONFIG
+  const presetName = options.preset ?? config.preset
+  if (presetName !== undefined) {
+    payoutConfig = findPreset(presetName)?.payoutConfig ?? payoutConfig
+  } else if (config.payoutConfig !== undefined) {
+    const payoutErrors = validatePayoutConfig(config.payoutConfig)
+    errors.push(...payoutErrors.map(error => `payoutConfig: ${error}`))
+    payoutConfig = config.payoutConfig
+  }
+
+  let strategy: PlayerStrategy
+  const minRank = options.minRank ?? config.minThreeCardFlushRank
+  if (minRank !== undefined || config.strategy === undefined) {
+    const rank = minRank ?? DEFAULT_CLI_MIN_RANK
+    if (!isWholeNumber(rank, 0) || rank > 14) errors.push('minThreeCardFlushRank must be a whole number from 0 to 14')
+    strategy = thresholdStrategy(rank)
+  } else {
+    strategy = config.strategy
+    errors.push(...validateStrategy(strategy))
+  }
+
+  // Only a seeded run's hands can be dealt again
+  if (options.replay !== undefined) {
+    if (seed === undefined) errors.push('--replay needs the seed of the run')
+    if (rng === 'crypto') errors.push('--replay cannot replay a run from the crypto generator')
+    if (isWholeNumber(hands, 1) && options.replay >= hands) errors.push(`--replay must be below the run's ${hands} hands`)
+  }
+
+  const gameRules: GameRulesConfig = { ...DEFAULT_GAME_RULES, ...config.gameRules }
+  errors.push(...validateGameRules(gameRules))
+
+  if (config.compare !== undefined && !Array.isArray(config.compare)) errors.push('compare must be an array of preset names')
+  if (config.comparisons !== undefined && !Array.isArray(config.comparisons)) {
+    errors.push('comparisons must be an array of { name, payoutConfig }')
+  }
+  const comparisons: PayoutComparisonConfig[] = []
+  for (const name of [...(Array.isArray(config.compare) ? config.compare : []), ...options.compare]) {
+    const preset = findPreset(name)
+    if (preset && !comparisons.some(c => c.name === name)) comparisons.push({ name, payoutConfig: preset.payoutConfig })
+  }
+  ;(Array.isArray(config.comparisons) ? config.comparisons : []).forEach((comparison, i) => {
+    const where = typeof comparison?.name === 'string' && comparison.name !== '' ? `comparison "${comparison.name}"` : `comparison ${i + 1}`
+    if (typeof comparison?.name !== 'string' || comparison.name === '') errors.push(`${where}: name must be a non-empty string`)
+    errors.push(...validatePayoutConfig(comparison?.payoutConfig).map(error => `${where}: ${error}`))
+    comparisons.push(comparison)
+  })
+
+  if (errors.length > 0) return { errors }
+  return {
+    config: {
+      hands,
+      seed,
+      ...(rng !== undefined && { rng: rng as RngAlgorithm }),
+      workers,
+      payoutConfig,
+      strategy,
+      optimal: options.optimal ?? config.optimal ?? false,
+      gameRules,
+      comparisons,
+      ...(options.replay !== undefined && { replay: options.replay }),
+      ...(options.selfTest && { selfTest: true })
+    },
+    errors: []
+  }
+}
@@ -0,0 +1,416 @@
+// exact-analysis.ts
+// Exact (combinatorial) analysis of the game. Instead of sampling deals, every player/dealer deal
+// is counted by working one suit at a time: within a suit the player and dealer hold disjoint rank
+// subsets, and the four suits combine through a bivariate generating function in x (player cards)
+// and y (dealer cards). The coefficient of x^7 y^7 in the product over suits counts complete deals.
+
+import {
+  BetResults,
+  BONUS_BETS,
+  buildBaseGameBreakdown,
+  buildSimulationResults,
+  buildFlushShapeStats,
+  buildThreeCardFlushStats,
+  createBaseGameOutcomeTallies,
+  createFlushShapeTallies,
+  createThreeCardFlushTallies,
+  dealerQualifies,
+  DEFAULT_GAME_RULES,
+  findBestStraight,
+  flushFeature,
+  getMaxPlayWager,
+  getPlayWager,
+  matchPaytableLine,
+  recordBaseGameWagers,
+  recordPaytableBet,
+  settleBaseGame
+} from './simulation-core'
+import type {
+  Card,
+  GameRulesConfig,
+  HandDistributionStats,
+  Paytable,
+  PaytableFeature,
+  PayoutConfig,
+  PlayerStrategy,
+  Rank,
+  SimulationResult,
+  SimulationSummary
+} from './simulation-core'
+
+const RANK_COUNT = 13
+const HAND_SIZE = 7
+const SUBSET_COUNT = 1 << RANK_COUNT
+const TERMS = (HAND_SIZE + 1) * (HAND_SIZE + 1)
+
+// Outcome counts of the base game for one class of player hand, i.e. one best flush
+// (length and ranks). Deal counts cover every (player hand, dealer hand) pair in the class.
+export interface FlushClassOutcome {
+  ranks: Rank[] // Ranks of the player's best flush, descending
+  hands: number // Number of 7-card player hands whose best flush is this class
+  deals: number // Number of (player, dealer) deals in this class
+  dealerNotQualified: number
+  playerWins: number
+  pushes: number
+  dealerWins: number
+}
+
+export interface FlushClassAnalysis {
+  classes: FlushClassOutcome[]
+  totalHands: number // C(52, 7)
+  totalDeals: number // C(52, 7) * C(45, 7)
+}
+
+// Number of ways to choose k items from n
+export function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0
+  let result = 1
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+  return Math.round(result)
+}
+
+function popcount(mask: number): number {
+  let count = 0
+  while (mask) {
+    mask &= mask - 1
+    count++
+  }
+  return count
+}
+
+// Ranks of a rank subset (bit 0 is a 2, bit 12 an Ace), descending
+export function maskToRanks(mask: number): Rank[] {
+  const ranks: Rank[] = []
+  for (let bit = RANK_COUNT - 1; bit >= 0; bit--) {
+    if (mask & (1 << bit)) ranks.push((bit + 2) as Rank)
+  }
+  return ranks
+}
+
+// Cards of a single-suit rank subset, sorted by descending rank as the core helpers expect
+function maskToFlush(mask: number): Card[] {
+  return maskToRanks(mask).map(rank => ({ rank, suit: '♠' }))
+}
+
+// All rank subsets that can be held in one suit, in increasing flush strength. For flushes of the
+// same length, comparing masks numerically is the same as comparing ranks from highest to lowest.
+function buildFlushClasses(): { masks: number[]; classIndex: Int32Array; sizes: Uint8Array } {
+  const sizes = new Uint8Array(SUBSET_COUNT)
+  const masks: number[] = []
+  for (let mask = 0; mask < SUBSET_COUNT; mask++) {
+    sizes[mask] = popcount(mask)
+    if (sizes[mask] <= HAND_SIZE) masks.push(mask)
+  }
+  masks.sort((a, b) => (sizes[a] - sizes[b]) || (a - b))
+  const classIndex = new Int32Array(SUBSET_COUNT).fill(-1)
+  masks.forEach((mask, i) => { classIndex[mask] = i })
+  return { masks, classIndex, sizes }
+}
+
+// Coefficient of x^7 y^7 in poly^4, where poly is an 8x8 table of x^i y^j coefficients
+function fourSuitCoefficient(poly: Float64Array): number {
+  const squared = new Float64Array(TERMS)
+  for (let i1 = 0; i1 <= HAND_SIZE; i1++) {
+    for (let j1 = 0; j1 <= HAND_SIZE; j1++) {
+      const a = poly[i1 * (HAND_SIZE + 1) + j1]
+      if (a === 0) continue
+      for (let i2 = 0; i1 + i2 <= HAND_SIZE; i2++) {
+        for (let j2 = 0; j1 + j2 <= HAND_SIZE; j2++) {
+          squared[(i1 + i2) * (HAND_SIZE + 1) + j1 + j2] += a * poly[i2 * (HAND_SIZE + 1) + j2]
+        }
+      }
+    }
+  }
+  let total = 0
+  for (let i = 0; i <= HAND_SIZE; i++) {
+    for (let j = 0; j <= HAND_SIZE; j++) {
+      total += squared[i * (HAND_SIZE + 1) + j] * squared[(HAND_SIZE - i) * (HAND_SIZE + 1) + HAND_SIZE - j]
+    }
+  }
+  return total
+}
+
+// Analyses by dealer qualifier, the only game rule the counts depend on
+const cachedAnalyses = new Map<string, FlushClassAnalysis>()
+
+// Counts, for every possible player best flush, how many deals end with the dealer not qualifying,
+// the player winning, a push, or the dealer winning. The result does not depend on payouts or
+// strategy, so it is computed once per dealer qualifier and cached.
+export function analyzeFlushClasses(gameRules: GameRulesConfig = DEFAULT_GAME_RULES): FlushClassAnalysis {
+  const cacheKey = JSON.stringify(gameRules.dealerQualifier)
+  const cached = cachedAnalyses.get(cacheKey)
+  if (cached) return cached
+
+  const { masks, classIndex, sizes } = buildFlushClasses()
+  const classCount = masks.length
+
+  // Index of the weakest qualifying flush: the dealer fails to qualify exactly when every suit
+  // holds a flush below it.
+  let qualifierIndex = classCount
+  for (let i = 0; i < classCount; i++) {
+    if (dealerQualifies(maskToFlush(masks[i]), gameRules)) {
+      qualifierIndex = i
+      break
+    }
+  }
+
+  // For each suit-level pair (player subset P, dealer subset D), bucket its x^|P| y^|D| term by the
+  // smallest class bound that admits it. Prefix sums over the buckets then give, for every bound a,
+  // the single-suit polynomial of pairs with class(P) < a and class(D) < b, where b is a - 1, a,
+  // a + 1, the qualifier, or unbounded.
+  const bucketCount = classCount + 2
+  const belowPrev = new Int32Array(bucketCount * TERMS)
+  const belowSame = new Int32Array(bucketCount * TERMS)
+  const belowNext = new Int32Array(bucketCount * TERMS)
+  const notQualified = new Int32Array(bucketCount * TERMS)
+  const anyDealer = new Int32Array(bucketCount * TERMS)
+  const full = SUBSET_COUNT - 1
+  for (const player of masks) {
+    const playerClass = classIndex[player]
+    const rest = full & ~player
+    for (let dealer = rest; ; dealer = (dealer - 1) & rest) {
+      const dealerClass = classIndex[dealer]
+      if (dealerClass >= 0) {
+        const term = sizes[player] * (HAND_SIZE + 1) + sizes[dealer]
+        belowPrev[Math.max(playerClass + 1, dealerClass + 2) * TERMS + term]++
+        belowSame[Math.max(playerClass + 1, dealerClass + 1) * TERMS + term]++
+        belowNext[Math.max(playerClass + 1, dealerClass) * TERMS + term]++
+        if (dealerClass < qualifierIndex) notQualified[(playerClass + 1) * TERMS + term]++
+        anyDealer[(playerClass + 1) * TERMS + term]++
+      }
+      if (dealer === 0) break
+    }
+  }
+
+  // Sweep the bound a upwards, keeping the running prefix polynomials, and record the number of
+  // complete deals where all four suits satisfy each pair of bounds.
+  const buckets = [belowPrev, belowSame, belowNext, notQualified, anyDealer]
+  const running = buckets.map(() => new Float64Array(TERMS))
+  const counts = buckets.map(() => new Float64Array(classCount + 1))
+  for (let a = 0; a <= classCount; a++) {
+    for (let k = 0; k < buckets.length; k++) {
+      for (let t = 0; t < TERMS; t++) running[k][t] += buckets[k][a * TERMS + t]
+      counts[k][a] = fourSuitCoefficient(running[k])
+    }
+  }
+  const [wPrev, wSame, wNext, wNotQualified, wAny] = counts
+
+  const dealerHands = choose(52 - HAND_SIZE, HAND_SIZE)
+  const classes: FlushClassOutcome[] = []
+  for (let i = 0; i < classCount; i++) {
+    // Deals whose player best flush is class i (every player suit <= i minus every suit < i),
+    // split by where the dealer's best flush falls
+    const deals = wAny[i + 1] - wAny[i]
+    if (deals === 0) continue
+    const dealerBelow = wPrev[i + 1] - wSame[i]
+    const dealerAtMost = wSame[i + 1] - wNext[i]
+    const dealerNotQualified = wNotQualified[i + 1] - wNotQualified[i]
+    const belowAndNotQualified = i < qualifierIndex ? dealerBelow : dealerNotQualified
+    const atMostAndNotQualified = i + 1 <= qualifierIndex ? dealerAtMost : dealerNotQualified
+    const playerWins = dealerBelow - belowAndNotQualified
+    const pushes = dealerAtMost - atMostAndNotQualified - playerWins
+    classes.push({
+      ranks: maskToRanks(masks[i]),
+      hands: deals / dealerHands,
+      deals,
+      dealerNotQualified,
+      playerWins,
+      pushes,
+      dealerWins: deals - dealerNotQualified - playerWins - pushes
+    })
+  }
+
+  const analysis = {
+    classes,
+    totalHands: choose(52, HAND_SIZE),
+    totalDeals: choose(52, HAND_SIZE) * dealerHands
+  }
+  cachedAnalyses.set(cacheKey, analysis)
+  return analysis
+}
+
+// Number of 7-card hands whose best straight flush has a given length and top card
+export interface StraightFlushCount {
+  length: number
+  highCard: number
+  hands: number
+}
+
+let cachedStraightFlushCounts: StraightFlushCount[] | undefined
+
+// Number of 7-card hands for every best straight flush (longest, then highest top card), weakest first
+export function countStraightFlushes(): StraightFlushCount[] {
+  if (cachedStraightFlushCounts) return cachedStraightFlushCounts
+
+  // Order straights by length, then top card, as a single key per suit subset
+  const keys = new Int32Array(SUBSET_COUNT)
+  const sizes = new Uint8Array(SUBSET_COUNT)
+  const distinctKeys = new Set<number>()
+  for (let mask = 0; mask < SUBSET_COUNT; mask++) {
+    sizes[mask] = popcount(mask)
+    if (sizes[mask] > HAND_SIZE) continue
+    const { length, highCard } = findBestStraight(maskToFlush(mask))
+    keys[mask] = length * 16 + highCard
+    distinctKeys.add(keys[mask])
+  }
+  const sortedKeys = [...distinctKeys].sort((a, b) => a - b)
+
+  // handsAtMost[k]: hands where every suit's best straight flush is at most sortedKeys[k]
+  const handsAtMost = sortedKeys.map(bound => {
+    const poly = new Float64Array(HAND_SIZE + 1)
+    for (let mask = 0; mask < SUBSET_COUNT; mask++) {
+      if (sizes[mask] <= HAND_SIZE && keys[mask] <= bound) poly[sizes[mask]]++
+    }
+    let product = new Float64Array(HAND_SIZE + 1)
+    product[0] = 1
+    for (let suit = 0; suit < 4; suit++) {
+      const next = new Float64Array(HAND_SIZE + 1)
+      for (let i = 0; i <= HAND_SIZE; i++) {
+        for (let j = 0; i + j <= HAND_SIZE; j++) next[i + j] += product[i] * poly[j]
+      }
+      product = next
+    }
+    return product[HAND_SIZE]
+  })
+
+  cachedStraightFlushCounts = sortedKeys
+    .map((key, k) => ({
+      length: Math.floor(key / 16),
+      highCard: key % 16,
+      hands: handsAtMost[k] - (k > 0 ? handsAtMost[k - 1] : 0)
+    }))
+    .filter(count => count.hands > 0)
+  return cachedStraightFlushCounts
+}
+
+// Number of 7-card hands whose longest straight flush has each length (index 0 through 7)
+export function countStraightFlushLengths(): number[] {
+  const counts = Array(HAND_SIZE + 1).fill(0)
+  for (const { length, hands } of countStraightFlushes()) counts[length] += hands
+  return counts
+}
+
+// Probability that each line of a paytable is the one that pays, i.e. the first line the player's
+// hand matches. Lines that never match, or that an earlier line always matches first, get 0.
+export function paytableLineProbabilities(paytable: Paytable): number[] {
+  const probabilities = paytable.lines.map(() => 0)
+  const record = (feature: PaytableFeature, probability: number) => {
+    const line = matchPaytableLine(paytable, feature)
+    if (line) probabilities[paytable.lines.indexOf(line)] += probability
+  }
+  if (paytable.hand === 'flush') {
+    const { classes, totalHands } = analyzeFlushClasses()
+    for (const flushClass of classes) {
+      record(flushFeature(flushClass.ranks.map(rank => ({ rank, suit: '♠' as const }))), flushClass.hands / totalHands)
+    }
+  } else {
+    const totalHands = choose(52, HAND_SIZE)
+    for (const { length, highCard, hands } of countStraightFlushes()) record({ length, highCard }, hands / totalHands)
+  }
+  return probabilities
+}
+
+// Exact counterpart of performSimulation. Returns the same summary shape, but every count is a
+// probability per hand (totalHands is 1), so results can be compared directly with sampled runs.
+export function performExactAnalysis(
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): SimulationSummary {
+  const bonusBets = BONUS_BETS.map(({ betType, paytable }): [string, Paytable] => [betType, payoutConfig[paytable]])
+  const anteAmount = 1
+  const bonusBet = 1
+  const betTotals: { [key: string]: BetResults } = {
+    'Base Game (Ante + Play)': new BetResults(),
+    'Flush Rush Bonus': new BetResults(),
+    'Super Flush Rush Bonus': new BetResults()
+  }
+  let aboveMinimum = 0
+  let belowMinimum = 0
+  const threeCardFlushes = createThreeCardFlushTallies()
+  const flushShapes = createFlushShapeTallies()
+  const baseGameOutcomes = createBaseGameOutcomeTallies()
+  const wagerTotals: { [key: string]: BetResults } = { Ante: new BetResults(), Play: new BetResults() }
+  let dealerQualified = 0
+
+  const { classes, totalHands, totalDeals } = analyzeFlushClasses(gameRules)
+  for (const flushClass of classes) {
+    const flush = flushClass.ranks.map(rank => ({ rank, suit: '♠' as const }))
+    const handWeight = flushClass.deals / totalDeals
+
+    // Dealt alone, the dealer's 7 cards are as likely to hold each flush as the player's
+    const shape = flushShapes.find(t => t.length === flush.length && t.highCard === flush[0].rank)!
+    shape.player += handWeight
+    shape.dealer += handWeight
+    dealerQualified += (flushClass.deals - flushClass.dealerNotQualified) / totalDeals
+
+    if (flush.length === 3) {
+      const tally = threeCardFlushes.find(t => t.highCard === flush[0].rank)!
+      const playWager = getMaxPlayWager(3, anteAmount, gameRules)
+      tally.hands += handWeight
+      tally.dealerQualified += (flushClass.deals - flushClass.dealerNotQualified) / totalDeals
+      tally.playNet += (
+        flushClass.dealerNotQualified * settleBaseGame('dealerNotQualified', anteAmount, playWager, gameRules) +
+        flushClass.playerWins * settleBaseGame('playerWins', anteAmount, playWager, gameRules) +
+        flushClass.pushes * settleBaseGame('push', anteAmount, playWager, gameRules) +
+        flushClass.dealerWins * settleBaseGame('dealerWins', anteAmount, playWager, gameRules)
+      ) / totalDeals
+    }
+
+    const playWager = getPlayWager(flush, strategy, anteAmount, gameRules)
+    if (playWager === 0) {
+      belowMinimum += handWeight
+      betTotals['Base Game (Ante + Play)'].recordLoss(anteAmount, handWeight)
+      recordBaseGameWagers(baseGameOutcomes, wagerTotals.Ante, wagerTotals.Play, 'fold', anteAmount, 0, gameRules, handWeight)
+    } else {
+      aboveMinimum += handWeight
+      const totalWager = anteAmount + playWager
+      const outcomes = [
+        ['playerWins', flushClass.playerWins],
+        ['dealerWins', flushClass.dealerWins],
+        ['push', flushClass.pushes],
+        ['dealerNotQualified', flushClass.dealerNotQualified]
+      ] as const
+      for (const [outcome, deals] of outcomes) {
+        const net = settleBaseGame(outcome, anteAmount, playWager, gameRules)
+        betTotals['Base Game (Ante + Play)'].recordOutcome(totalWager, net, deals / totalDeals, anteAmount)
+        recordBaseGameWagers(baseGameOutcomes, wagerTotals.Ante, wagerTotals.Play, outcome, anteAmount, playWager, gameRules, deals / totalDeals)
+      }
+    }
+
+    for (const [betType, paytable] of bonusBets) {
+      if (paytable.hand === 'flush') recordPaytableBet(betTotals[betType], paytable, flushFeature(flush), bonusBet, handWeight)
+    }
+  }
+
+  for (const { length, highCard, hands } of countStraightFlushes()) {
+    for (const [betType, paytable] of bonusBets) {
+      if (paytable.hand === 'straightFlush') recordPaytableBet(betTotals[betType], paytable, { length, highCard }, bonusBet, hands / totalHands)
+    }
+  }
+
+  const handDistribution: HandDistributionStats = {
+    totalHands: 1,
+    aboveMinimum,
+    belowMinimum,
+    aboveMinimumPercentage: aboveMinimum * 100,
+    belowMinimumPercentage: belowMinimum * 100,
+    threeCardFlushByHighCard: buildThreeCardFlushStats(threeCardFlushes, 1),
+    flushShapes: buildFlushShapeStats(flushShapes, 1)
+  }
+
+  // Probabilities are exact, so there is no sampling error around the returns
+  const withoutSamplingError = (results: SimulationResult[]) => results.map(result => ({
+    ...result,
+    standardError: 0,
+    confidenceInterval95: { lower: result.expectedReturn, upper: result.expectedReturn }
+  }))
+
+  return {
+    results: withoutSamplingError(buildSimulationResults(betTotals)),
+    handDistribution,
+    baseGame: buildBaseGameBreakdown(baseGameOutcomes, dealerQualified, withoutSamplingError(buildSimulationResults(wagerTotals)), 1)
+  }
+}
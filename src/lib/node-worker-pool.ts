@@ -0,0 +1,19 @@
+// node-worker-pool.ts
+// Simulation workers on Node worker_threads, for the command line and tests. Kept out of
+// simulation.ts so browser bundles never import Node modules.
+
+import { availableParallelism } from 'node:os'
+import { Worker } from 'node:worker_threads'
+import { createWorkerPool } from './worker-pool'
+import type { SimulationWorkerPool } from './worker-pool'
+
+// workerUrl points at the bundled simulation.node-worker entry, which Node runs as JavaScript
+export function createNodeWorkerPool(workerUrl: URL, size = availableParallelism()): SimulationWorkerPool {
+  return createWorkerPool(size, (onMessage, onError) => {
+    const worker = new Worker(workerUrl)
+    worker.on('message', onMessage)
+    worker.on('error', onError)
+    worker.on('exit', code => onError(new Error(`Simulation worker stopped with exit code ${code}`)))
+    return worker
+  })
+}
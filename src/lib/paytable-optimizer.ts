@@ -0,0 +1,134 @@
+// paytable-optimizer.ts
+// Searches bonus bet payouts for tables that hit a target return. A bonus bet's return is linear in
+// its payouts, so with the exact probability of each line paying, every candidate is scored
+// without simulation and whole branches of the search are pruned by their reachable return.
+
+import { paytableLineProbabilities } from './exact-analysis'
+import type { Paytable } from './paytables'
+
+// Round payouts (odds-to-1) of the kind published paytables use, searched by default
+export const DEFAULT_PAYOUT_LADDER = [
+  1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 12, 15, 20, 25, 30, 35, 40, 50, 60, 75, 80, 100,
+  125, 150, 200, 250, 300, 400, 500, 750, 1000, 1500, 2000, 2500, 5000, 10000
+]
+
+// Constraint on the payout of one paytable line
+export interface PaylineConstraint {
+  locked?: boolean // Keep the template's payout
+  minPayout?: number
+  maxPayout?: number
+}
+
+export interface PaytableOptimizerOptions {
+  targetReturn: { min: number; max: number } // Acceptable expected return range, in percent (e.g. -5.5 to -4.5)
+  constraints?: PaylineConstraint[] // Aligned with the template's lines
+  monotonic?: boolean // Each line pays at least as much as every line after it (lines listed strongest first); default true
+  payoutValues?: number[] // Payouts to try for unlocked lines; default DEFAULT_PAYOUT_LADDER
+  maxCandidates?: number // Number of ranked candidates to return; default 10
+  maxEvaluations?: number // Search budget in complete tables scored; default 5,000,000
+}
+
+export interface PaytableCandidate {
+  paytable: Paytable
+  expectedReturn: number // Percent
+  houseEdge: number // Percent, -expectedReturn
+  hitFrequency: number // Percent of hands that win
+}
+
+export interface PaytableOptimization {
+  candidates: PaytableCandidate[] // Best first: closest to the middle of the target range
+  lineProbabilities: number[] // Probability each template line pays
+  evaluated: number // Complete tables scored
+  exhaustive: boolean // False if tables were left unscored when the search reached maxEvaluations
+}
+
+// Returns the expected return (percent) of a paytable from the probability of each line paying
+function paytableReturn(payouts: number[], probabilities: number[]): number {
+  let expected = -1 // The bet is lost unless a line pays, in which case it is returned with the payout
+  payouts.forEach((payout, i) => { expected += probabilities[i] * (payout + 1) })
+  return expected * 100
+}
+
+// Finds payouts for the template's lines that put the bet's exact return within the target range
+// and ranks them by distance from the middle of the range. The line conditions and their order are
+// kept; only payouts change.
+export function optimizePaytable(template: Paytable, options: PaytableOptimizerOptions): PaytableOptimization {
+  const {
+    targetReturn,
+    constraints = [],
+    monotonic = true,
+    payoutValues = DEFAULT_PAYOUT_LADDER,
+    maxCandidates = 10,
+    maxEvaluations = 5000000
+  } = options
+  const lineProbabilities = paytableLineProbabilities(template)
+  const hitFrequency = lineProbabilities.reduce((sum, p) => sum + p, 0) * 100
+  const target = (targetReturn.min + targetReturn.max) / 2
+
+  // Payouts each line may take, in descending order so the search visits rich tables first
+  const choices = template.lines.map((line, i) => {
+    const constraint = constraints[i] ?? {}
+    if (constraint.locked) return [line.payout]
+    const min = constraint.minPayout ?? 0
+    const max = constraint.maxPayout ?? Infinity
+    return [...new Set(payoutValues)].filter(value => value > 0 && value >= min && value <= max).sort((a, b) => b - a)
+  })
+
+  const candidates: PaytableCandidate[] = []
+  const payouts: number[] = []
+  let evaluated = 0
+  let truncated = false // A complete table was reached after maxEvaluations were scored
+
+  // Return contributed by lines from index onwards at their lowest and highest allowed payouts,
+  // given the payout of the line before when payouts must not increase
+  const remainingRange = (index: number, cap: number): [number, number] => {
+    let low = 0
+    let high = 0
+    for (let i = index; i < choices.length; i++) {
+      const allowed = monotonic ? choices[i].filter(value => value <= cap) : choices[i]
+      if (allowed.length === 0) return [Infinity, -Infinity]
+      low += lineProbabilities[i] * (allowed[allowed.length - 1] + 1) * 100
+      high += lineProbabilities[i] * (allowed[0] + 1) * 100
+      if (monotonic) cap = allowed[0]
+    }
+    return [low, high]
+  }
+
+  const search = (index: number, partialReturn: number, cap: number) => {
+    if (truncated) return
+    if (index === choices.length) {
+      if (evaluated >= maxEvaluations) {
+        truncated = true
+        return
+      }
+      evaluated++
+      // partialReturn is only used for pruning; score the table afresh to avoid accumulated rounding
+      const expectedReturn = paytableReturn(payouts, lineProbabilities)
+      if (expectedReturn < targetReturn.min || expectedReturn > targetReturn.max) return
+      const distance = Math.abs(expectedReturn - target)
+      const worst = candidates[candidates.length - 1]
+      if (candidates.length === maxCandidates && distance >= Math.abs(worst.expectedReturn - target)) return
+      const candidate: PaytableCandidate = {
+        paytable: { ...template, lines: template.lines.map((line, i) => ({ ...line, payout: payouts[i] })) },
+        expectedReturn,
+        houseEdge: -expectedReturn,
+        hitFrequency
+      }
+      const position = candidates.findIndex(c => Math.abs(c.expectedReturn - target) > distance)
+      candidates.splice(position < 0 ? candidates.length : position, 0, candidate)
+      if (candidates.length > maxCandidates) candidates.pop()
+      return
+    }
+    for (const payout of choices[index]) {
+      if (monotonic && payout > cap) continue
+      const contribution = partialReturn + lineProbabilities[index] * (payout + 1) * 100
+      const [low, high] = remainingRange(index + 1, monotonic ? payout : Infinity)
+      if (contribution + low > targetReturn.max || contribution + high < targetReturn.min) continue
+      payouts[index] = payout
+      search(index + 1, contribution, payout)
+    }
+  }
+
+  search(0, -100, Infinity)
+  return { candidates, lineProbabilities, evaluated, exhaustive: !truncated }
+}
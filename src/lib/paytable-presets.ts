@@ -0,0 +1,95 @@
+// paytable-presets.ts
+// Named payout configurations: the app's standard paytables as a built-in preset plus user-defined
+// ones, and the versioned JSON file format they are exported to, imported from and stored locally in.
+
+import { DEFAULT_PAYOUT_CONFIG, validatePayoutConfig } from './paytables'
+import type { PayoutConfig } from './paytables'
+
+export const PRESET_FILE_VERSION = 1
+
+export interface PaytablePreset {
+  name: string
+  description?: string
+  payoutConfig: PayoutConfig
+  builtIn?: boolean // Built-in presets cannot be replaced or deleted
+}
+
+// Shape of an exported presets file
+export interface PresetFile {
+  version: number
+  presets: Omit<PaytablePreset, 'builtIn'>[]
+}
+
+// Read-only tables shipped with the app. Only the standard tables ship for now: no other published
+// Flush Rush or Super Flush Rush table has a source to check it against. One added later names its
+// source in its description.
+export const BUILT_IN_PRESETS: PaytablePreset[] = [
+  {
+    name: 'Standard',
+    description: 'Flush Rush 100/20/10/2, Super Flush Rush 500/200/100/50/9',
+    payoutConfig: DEFAULT_PAYOUT_CONFIG,
+    builtIn: true
+  }
+]
+
+// Returns the presets as a versioned JSON file
+export function exportPresets(presets: PaytablePreset[]): string {
+  const file: PresetFile = {
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, description, payoutConfig }) => ({ name, description, payoutConfig }))
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// Parses and validates a presets file. Nothing is returned unless the whole file is valid, so a
+// malformed import never half-applies.
+export function parsePresetFile(json: string): { presets: PaytablePreset[]; errors: string[] } {
+  let file: unknown
+  try {
+    file = JSON.parse(json)
+  } catch (err) {
+    return { presets: [], errors: [`not valid JSON: ${err instanceof Error ? err.message : String(err)}`] }
+  }
+  if (typeof file !== 'object' || file === null) return { presets: [], errors: ['file must contain a JSON object'] }
+
+  const { version, presets } = file as Partial<PresetFile>
+  if (version !== PRESET_FILE_VERSION) {
+    return { presets: [], errors: [`unsupported file version ${JSON.stringify(version)}, expected ${PRESET_FILE_VERSION}`] }
+  }
+  if (!Array.isArray(presets)) return { presets: [], errors: ['presets must be an array'] }
+
+  const errors: string[] = []
+  const names = new Set<string>()
+  presets.forEach((preset: unknown, i) => {
+    if (typeof preset !== 'object' || preset === null) {
+      errors.push(`preset ${i + 1} must be an object`)
+      return
+    }
+    const { name, description, payoutConfig } = preset as Partial<PaytablePreset>
+    const where = typeof name === 'string' && name.trim() !== '' ? `preset "${name}"` : `preset ${i + 1}`
+    if (typeof name !== 'string' || name.trim() === '') errors.push(`${where}: name must be a non-empty string`)
+    else if (names.has(name)) errors.push(`${where}: name is used more than once`)
+    else names.add(name)
+    if (description !== undefined && typeof description !== 'string') errors.push(`${where}: description must be a string`)
+    errors.push(...validatePayoutConfig(payoutConfig).map(error => `${where}: ${error}`))
+  })
+  if (errors.length > 0) return { presets: [], errors }
+
+  return {
+    presets: (presets as PaytablePreset[]).map(({ name, description, payoutConfig }) => ({ name, description, payoutConfig })),
+    errors: []
+  }
+}
+
+// Adds or replaces user presets by name. Built-in presets keep their name, so a clashing user
+// preset is reported instead of replacing one.
+export function mergePresets(existing: PaytablePreset[], added: PaytablePreset[]): { presets: PaytablePreset[]; errors: string[] } {
+  const builtInNames = new Set(BUILT_IN_PRESETS.map(preset => preset.name))
+  const errors = added
+    .filter(preset => builtInNames.has(preset.name))
+    .map(preset => `preset "${preset.name}": a built-in preset has this name`)
+  if (errors.length > 0) return { presets: existing, errors }
+
+  const addedNames = new Set(added.map(preset => preset.name))
+  return { presets: [...existing.filter(preset => !addedNames.has(preset.name)), ...added], errors: [] }
+}
@@ -0,0 +1,141 @@
+// paytables.ts
+// Data-driven bonus bet paytables. A paytable is an ordered list of (hand condition -> odds-to-1)
+// lines read against one feature of the player's hand; the first line that matches pays.
+
+import type { Rank } from './simulation-core'
+
+// The feature of the player's 7 cards a paytable is read against: the best flush (most cards, then
+// highest ranks) or the best straight flush (longest, then highest top card)
+export type PaytableHand = 'flush' | 'straightFlush'
+
+// Length and high card of the hand feature a paytable is read against
+export interface PaytableFeature {
+  length: number
+  highCard: number // 0 when length is 0; a wheel straight flush (A-2-3...) is high at its top card
+}
+
+export interface PaytableLine {
+  length: number // Exact number of cards
+  minHighCard?: Rank // Lowest high card that pays, any if omitted
+  maxHighCard?: Rank // Highest high card that pays, any if omitted
+  payout: number // Odds-to-1
+  label?: string // Payline name in results, derived from the condition if omitted
+}
+
+export interface Paytable {
+  hand: PaytableHand
+  lines: PaytableLine[]
+}
+
+export interface PayoutConfig {
+  flushRush: Paytable
+  superFlushRush: Paytable
+}
+
+export const FLUSH_RUSH_PAYTABLE: Paytable = {
+  hand: 'flush',
+  lines: [
+    { length: 7, payout: 100 },
+    { length: 6, payout: 20 },
+    { length: 5, payout: 10 },
+    { length: 4, payout: 2 }
+  ]
+}
+
+export const SUPER_FLUSH_RUSH_PAYTABLE: Paytable = {
+  hand: 'straightFlush',
+  lines: [
+    { length: 7, payout: 500 },
+    { length: 6, payout: 200 },
+    { length: 5, payout: 100 },
+    { length: 4, payout: 50 },
+    { length: 3, payout: 9 }
+  ]
+}
+
+export const DEFAULT_PAYOUT_CONFIG: PayoutConfig = {
+  flushRush: FLUSH_RUSH_PAYTABLE,
+  superFlushRush: SUPER_FLUSH_RUSH_PAYTABLE
+}
+
+const RANK_NAMES: { [rank: number]: string } = { 11: 'J', 12: 'Q', 13: 'K', 14: 'A' }
+
+function rankLabel(rank: number): string {
+  return RANK_NAMES[rank] ?? String(rank)
+}
+
+// Returns the first line of the paytable that the hand feature satisfies
+export function matchPaytableLine(paytable: Paytable, feature: PaytableFeature): PaytableLine | undefined {
+  return paytable.lines.find(line =>
+    line.length === feature.length &&
+    feature.highCard >= (line.minHighCard ?? 0) &&
+    feature.highCard <= (line.maxHighCard ?? 14)
+  )
+}
+
+// Returns the name of a paytable line as reported in the payline breakdown
+export function paytableLineLabel(paytable: Paytable, line: PaytableLine): string {
+  if (line.label) return line.label
+  const name = `${line.length} Card ${paytable.hand === 'flush' ? 'Flush' : 'Straight Flush'}`
+  const { minHighCard, maxHighCard } = line
+  if (minHighCard !== undefined && maxHighCard !== undefined) {
+    return minHighCard === maxHighCard
+      ? `${name} (${rankLabel(minHighCard)}-high)`
+      : `${name} (${rankLabel(minHighCard)}-high to ${rankLabel(maxHighCard)}-high)`
+  }
+  if (minHighCard !== undefined) return `${name} (${rankLabel(minHighCard)}-high or better)`
+  if (maxHighCard !== undefined) return `${name} (up to ${rankLabel(maxHighCard)}-high)`
+  return name
+}
+
+function isRank(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 2 && (value as number) <= 14
+}
+
+// Returns a list of problems with a paytable, empty if it is valid. Accepts untrusted input, such
+// as parsed JSON, so every field is checked.
+export function validatePaytable(paytable: unknown): string[] {
+  if (typeof paytable !== 'object' || paytable === null) return ['must be an object']
+  const { hand, lines } = paytable as Partial<Paytable>
+  const errors: string[] = []
+  if (hand !== 'flush' && hand !== 'straightFlush') errors.push(`hand must be "flush" or "straightFlush", got ${JSON.stringify(hand)}`)
+  if (!Array.isArray(lines)) return [...errors, 'lines must be an array']
+
+  lines.forEach((line: unknown, i) => {
+    const where = `line ${i + 1}`
+    if (typeof line !== 'object' || line === null) {
+      errors.push(`${where} must be an object`)
+      return
+    }
+    const { length, minHighCard, maxHighCard, payout, label } = line as Partial<PaytableLine>
+    if (!Number.isInteger(length) || length! < 1 || length! > 7) errors.push(`${where}: length must be a whole number from 1 to 7`)
+    if (typeof payout !== 'number' || !Number.isFinite(payout) || payout <= 0) errors.push(`${where}: payout must be a positive number`)
+    if (minHighCard !== undefined && !isRank(minHighCard)) errors.push(`${where}: minHighCard must be a rank from 2 to 14`)
+    if (maxHighCard !== undefined && !isRank(maxHighCard)) errors.push(`${where}: maxHighCard must be a rank from 2 to 14`)
+    if (isRank(minHighCard) && isRank(maxHighCard) && minHighCard! > maxHighCard!) errors.push(`${where}: minHighCard is above maxHighCard`)
+    if (label !== undefined && typeof label !== 'string') errors.push(`${where}: label must be a string`)
+  })
+  if (errors.length > 0) return errors
+
+  // Lines are matched in order, so a line whose condition is covered by an earlier one never pays
+  const typedLines = lines as PaytableLine[]
+  typedLines.forEach((line, i) => {
+    const shadowedBy = typedLines.slice(0, i).findIndex(earlier =>
+      earlier.length === line.length &&
+      (earlier.minHighCard ?? 0) <= (line.minHighCard ?? 0) &&
+      (earlier.maxHighCard ?? 14) >= (line.maxHighCard ?? 14)
+    )
+    if (shadowedBy >= 0) errors.push(`line ${i + 1} can never pay because line ${shadowedBy + 1} matches first`)
+  })
+  return errors
+}
+
+// Returns a list of problems with a payout configuration, each prefixed with the bet it concerns
+export function validatePayoutConfig(payoutConfig: unknown): string[] {
+  if (typeof payoutConfig !== 'object' || payoutConfig === null) return ['payout configuration must be an object']
+  const { flushRush, superFlushRush } = payoutConfig as Partial<PayoutConfig>
+  return [
+    ...validatePaytable(flushRush).map(error => `flushRush: ${error}`),
+    ...validatePaytable(superFlushRush).map(error => `superFlushRush: ${error}`)
+  ]
+}
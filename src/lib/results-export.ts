@@ -0,0 +1,204 @@
+// results-export.ts
+// Plain-text and CSV renderings of a simulation summary, for the headless runner and exports.
+
+import { RNG_ALGORITHMS } from './simulation-core'
+import type { BaseGameBreakdown, BaseGameOutcome, BaseGameResolution, Card, HandRecord, RunRng, SimulationResult, SimulationSummary } from './simulation-core'
+import type { RngSelfTestResult } from './rng-self-test'
+
+const CURRENT_PAYTABLE = 'Current'
+
+const percent = (value: number, digits = 3) => `${value.toFixed(digits)}%`
+
+// Lays rows out in columns; the first column is left-aligned and the rest right-aligned
+function formatColumns(header: string[], rows: string[][]): string {
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map(row => row[i].length)))
+  const line = (row: string[]) => row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ')
+  return [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(line)].join('\n')
+}
+
+// Name of a generator with the seed it was given, e.g. 'PCG32, seed 42'
+export function formatRunRng(rng: RunRng): string {
+  const name = RNG_ALGORITHMS.find(info => info.id === rng.algorithm)?.name ?? rng.algorithm
+  return rng.seed !== undefined ? `${name}, seed ${rng.seed}` : name
+}
+
+const RESOLUTION_LABELS: { [outcome in BaseGameResolution]: string } = {
+  fold: 'Fold',
+  dealerNotQualified: 'Dealer does not qualify',
+  playerWins: 'Player wins',
+  dealerWins: 'Dealer wins',
+  push: 'Push'
+}
+
+// Where the base game's return comes from: each way a hand can end, then the Ante and Play alone
+function formatBaseGameBreakdown(baseGame: BaseGameBreakdown): string {
+  const outcomeRows = baseGame.outcomes.map(outcome => [
+    RESOLUTION_LABELS[outcome.outcome],
+    outcome.hands.toLocaleString('en-US'),
+    percent(outcome.frequency, 2),
+    (outcome.hands > 0 ? outcome.anteNet / outcome.hands : 0).toFixed(3),
+    (outcome.hands > 0 ? outcome.playNet / outcome.hands : 0).toFixed(3),
+    percent(outcome.returnContribution)
+  ])
+  const wagerRows = baseGame.wagers.map(wager => [
+    wager.betType,
+    wager.totalBet.toLocaleString('en-US'),
+    wager.totalWon.toLocaleString('en-US'),
+    percent(wager.expectedReturn),
+    wager.stdDevPerHand.toFixed(2),
+    wager.volatilityIndex.toFixed(2),
+    percent(wager.hitFrequency, 2)
+  ])
+  return [
+    `Base game: the dealer qualifies on ${percent(baseGame.dealerQualificationRate, 2)} of hands`,
+    formatColumns(['Outcome', 'Hands', 'Frequency', 'Ante Net/Hand', 'Play Net/Hand', 'Return Contribution'], outcomeRows),
+    formatColumns(['Wager', 'Total Bet', 'Total Won', 'Return', 'SD/Hand', 'VI', 'Hit Freq'], wagerRows)
+  ].join('\n\n')
+}
+
+// The exact return, volatility index and hit frequency of a bet, or dashes when it has no exact result
+function exactColumns(exact?: SimulationResult): string[] {
+  if (!exact) return ['-', '-', '-']
+  return [percent(exact.expectedReturn), exact.volatilityIndex.toFixed(2), percent(exact.hitFrequency, 2)]
+}
+
+// The results table (with exactColumns when an exact analysis is given), the base-game breakdown
+// and any paytable comparisons, after a partial-results note and the generator
+export function formatResultsTable(summary: SimulationSummary, exact?: SimulationSummary): string {
+  const exactResults = new Map(exact?.results.map(r => [r.betType, r]))
+  const rows = summary.results.map(result => [
+    result.betType,
+    result.totalBet.toLocaleString('en-US'),
+    result.totalWon.toLocaleString('en-US'),
+    `${result.handsWon.toLocaleString('en-US')} / ${summary.handDistribution.totalHands.toLocaleString('en-US')}`,
+    percent(result.winRate, 1),
+    percent(result.expectedReturn),
+    result.totalInitialBet > 0 ? percent(result.returnPerInitialBet) : '-',
+    result.averageBet.toFixed(3),
+    `${percent(result.confidenceInterval95.lower)} to ${percent(result.confidenceInterval95.upper)}`,
+    result.stdDevPerHand.toFixed(2),
+    result.stdDevPerUnit.toFixed(2),
+    result.volatilityIndex.toFixed(2),
+    percent(result.hitFrequency, 2),
+    ...exactColumns(exactResults.get(result.betType))
+  ])
+  const sections = [
+    ...(summary.partial ? [`Partial results: the run was cancelled after ${summary.handDistribution.totalHands.toLocaleString('en-US')} hands`] : []),
+    ...(summary.rng ? [`Generator: ${formatRunRng(summary.rng)}`] : []),
+    formatColumns(['Bet Type', 'Total Bet', 'Total Won', 'Hands Won', 'Win Rate', 'Return', 'Return/Initial', 'Avg Bet', '95% CI', 'SD/Hand', 'SD/Unit', 'VI', 'Hit Freq', 'Exact Return', 'Exact VI', 'Exact Hit Freq'], rows),
+    formatBaseGameBreakdown(summary.baseGame)
+  ]
+
+  if (summary.comparisons && summary.comparisons.length > 0) {
+    const comparisonRows = summary.comparisons.flatMap(comparison => comparison.differences.map(difference => {
+      const result = comparison.results.find(r => r.betType === difference.betType)!
+      const sign = difference.difference >= 0 ? '+' : ''
+      return [
+        comparison.name,
+        difference.betType,
+        percent(result.expectedReturn),
+        `${sign}${difference.difference.toFixed(3)} pp`,
+        `${difference.confidenceInterval95.lower.toFixed(3)} to ${difference.confidenceInterval95.upper.toFixed(3)} pp`
+      ]
+    }))
+    sections.push(formatColumns(['Paytable', 'Bet Type', 'Return', 'Difference', '95% CI of Difference'], comparisonRows))
+  }
+  return sections.join('\n\n')
+}
+
+const rankLabels: { [rank: number]: string } = { 11: 'J', 12: 'Q', 13: 'K', 14: 'A' }
+
+const formatCards = (cards: Card[]) => cards.map(card => `${rankLabels[card.rank] ?? card.rank}${card.suit}`).join(' ')
+
+const OUTCOME_LABELS: { [outcome in BaseGameOutcome]: string } = {
+  dealerNotQualified: 'dealer does not qualify',
+  playerWins: 'player wins',
+  dealerWins: 'dealer wins',
+  push: 'tie'
+}
+
+// A traced or replayed hand: both sides' cards and best flushes, the decision and every settlement
+export function formatHandRecord(record: HandRecord): string {
+  const decision = record.playWager > 0
+    ? `Play ${record.playWager}x, ${OUTCOME_LABELS[record.outcome!]}`
+    : 'Fold'
+  const bets = record.bets.map(bet => [bet.betType, String(bet.wager), `${bet.net > 0 ? '+' : ''}${bet.net}`, bet.payline ?? ''])
+  return [
+    `Hand ${record.hand}`,
+    `Player: ${formatCards(record.playerCards)}  (best flush ${formatCards(record.playerFlush) || 'none'})`,
+    `Dealer: ${formatCards(record.dealerCards)}  (best flush ${formatCards(record.dealerFlush) || 'none'}, ${record.dealerQualified ? 'qualifies' : 'does not qualify'})`,
+    `Decision: ${decision}`,
+    '',
+    formatColumns(['Bet', 'Wager', 'Net', 'Payline'], bets)
+  ].join('\n')
+}
+
+// Quotes a CSV field when it holds a delimiter, quote or line break
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_HEADER = [
+  'paytable', 'betType', 'hands', 'totalBet', 'totalWon', 'handsWon', 'handsLost', 'handsPushed', 'winRate',
+  'expectedReturn', 'standardError', 'ci95Lower', 'ci95Upper', 'stdDevPerHand',
+  'totalInitialBet', 'returnPerInitialBet', 'averageBet', 'stdDevPerUnit', 'volatilityIndex', 'hitFrequency',
+  'exactExpectedReturn', 'exactStdDevPerUnit', 'exactVolatilityIndex', 'exactHitFrequency',
+  'differenceFromCurrent', 'differenceCi95Lower', 'differenceCi95Upper'
+]
+
+// One row per bet for the simulated paytables, then per bet for each comparison paytable with its
+// paired difference from the simulated one. Returns are in percent, differences in points. The exact
+// columns are filled for the simulated paytables when exact is given.
+export function summaryToCsv(summary: SimulationSummary, exact?: SimulationSummary): string {
+  const hands = summary.handDistribution.totalHands
+  const exactResults = new Map(exact?.results.map(r => [r.betType, r]))
+  const row = (paytable: string, result: SimulationResult, exactResult: SimulationResult | undefined, difference: (string | number)[]) => [
+    paytable,
+    result.betType,
+    hands,
+    result.totalBet,
+    result.totalWon,
+    result.handsWon,
+    result.handsLost,
+    result.handsPushed,
+    result.winRate,
+    result.expectedReturn,
+    result.standardError,
+    result.confidenceInterval95.lower,
+    result.confidenceInterval95.upper,
+    result.stdDevPerHand,
+    result.totalInitialBet,
+    result.returnPerInitialBet,
+    result.averageBet,
+    result.stdDevPerUnit,
+    result.volatilityIndex,
+    result.hitFrequency,
+    ...(exactResult
+      ? [exactResult.expectedReturn, exactResult.stdDevPerUnit, exactResult.volatilityIndex, exactResult.hitFrequency]
+      : ['', '', '', '']),
+    ...difference
+  ]
+
+  const rows = summary.results.map(result => row(CURRENT_PAYTABLE, result, exactResults.get(result.betType), ['', '', '']))
+  for (const comparison of summary.comparisons ?? []) {
+    for (const result of comparison.results) {
+      const difference = comparison.differences.find(d => d.betType === result.betType)
+      rows.push(row(comparison.name, result, undefined, difference
+        ? [difference.difference, difference.confidenceInterval95.lower, difference.confidenceInterval95.upper]
+        : ['', '', '']))
+    }
+  }
+  return [CSV_HEADER, ...rows].map(fields => fields.map(csvField).join(',')).join('\n') + '\n'
+}
+
+// The self-test of a generator: one row per test, then the verdict
+export function formatRngSelfTest(result: RngSelfTestResult): string {
+  const rows = result.tests.map(test => [test.name, test.statistic.toFixed(3), test.pValue.toFixed(4), test.passed ? 'pass' : 'FAIL'])
+  const generator = result.algorithm ? formatRunRng({ algorithm: result.algorithm, seed: result.seed }) : 'Generator'
+  return [
+    `${generator}: ${result.hands.toLocaleString('en-US')} shuffled decks`,
+    formatColumns(['Test', 'Statistic', 'p-value', 'Result'], rows),
+    result.passed ? 'All tests passed' : 'Some tests failed'
+  ].join('\n\n')
+}
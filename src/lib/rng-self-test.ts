@@ -0,0 +1,134 @@
+// rng-self-test.ts
+// Statistical checks of a generator as the simulation uses it: decks shuffled by shuffleDeckWithRng
+// should put every card in every position equally often, with no correlation between hands or
+// between successive draws.
+
+import { createDeck, createSimulationRng, seedToUint32, shuffleDeckWithRng } from './simulation-core'
+import type { Card, HandRng, RNG, RngAlgorithm } from './simulation-core'
+
+// A test fails when a result at least this extreme would arise by chance less often than this
+export const RNG_SELF_TEST_SIGNIFICANCE = 0.001
+
+export const DEFAULT_RNG_SELF_TEST_HANDS = 50000
+
+export interface RngTestResult {
+  name: string
+  statistic: number // Chi-square for the position test, z for the correlation tests
+  pValue: number
+  passed: boolean
+}
+
+export interface RngSelfTestResult {
+  algorithm?: RngAlgorithm
+  seed?: number | string
+  hands: number
+  tests: RngTestResult[]
+  passed: boolean
+}
+
+// Complementary error function (Numerical Recipes erfcc, relative error below 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x)
+  const t = 1 / (1 + z / 2)
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))))
+  return x >= 0 ? r : 2 - r
+}
+
+// Probability of a standard normal value at least as far from zero as z
+function twoSidedNormalP(z: number): number {
+  return erfc(Math.abs(z) / Math.SQRT2)
+}
+
+// Upper tail of the chi-square distribution, by the Wilson-Hilferty cube-root approximation, which
+// is accurate to well within the significance level for thousands of degrees of freedom
+function chiSquareP(statistic: number, degreesOfFreedom: number): number {
+  const k = degreesOfFreedom
+  const z = (Math.cbrt(statistic / k) - (1 - 2 / (9 * k))) / Math.sqrt(2 / (9 * k))
+  return erfc(z / Math.SQRT2) / 2
+}
+
+// Running Pearson correlation of successive pairs (x, y)
+function createCorrelation() {
+  let n = 0
+  let sumX = 0
+  let sumY = 0
+  let sumXX = 0
+  let sumYY = 0
+  let sumXY = 0
+  return {
+    add(x: number, y: number) {
+      n++
+      sumX += x
+      sumY += y
+      sumXX += x * x
+      sumYY += y * y
+      sumXY += x * y
+    },
+    // z = r * sqrt(n), approximately standard normal for uncorrelated values
+    z(): number {
+      const covariance = n * sumXY - sumX * sumY
+      const variance = (n * sumXX - sumX * sumX) * (n * sumYY - sumY * sumY)
+      return variance > 0 ? (covariance / Math.sqrt(variance)) * Math.sqrt(n) : 0
+    }
+  }
+}
+
+function testResult(name: string, statistic: number, pValue: number): RngTestResult {
+  return { name, statistic, pValue, passed: pValue >= RNG_SELF_TEST_SIGNIFICANCE }
+}
+
+// Deals hands decks from rng, hand by hand as a run would, and tests:
+// - Card positions: chi-square of how often each card lands in each position (51 x 51 degrees of freedom)
+// - Serial correlation: of the top card of successive hands
+// - Draw correlation: of successive values drawn from the generator
+export function runRngSelfTest(rng: RNG | HandRng, hands = DEFAULT_RNG_SELF_TEST_HANDS): RngSelfTestResult {
+  const deck = createDeck()
+  const cardIndex = new Map<Card, number>(deck.map((card, i) => [card, i]))
+  const counts = new Float64Array(52 * 52)
+  const handCorrelation = createCorrelation()
+  const drawCorrelation = createCorrelation()
+  let previousTopCard: number | undefined
+  let previousDraw: number | undefined
+
+  for (let hand = 0; hand < hands; hand++) {
+    const source = typeof rng === 'function' ? rng : rng.forHand(hand)
+    const shuffled = shuffleDeckWithRng(deck, () => {
+      const value = source()
+      if (previousDraw !== undefined) drawCorrelation.add(previousDraw, value)
+      previousDraw = value
+      return value
+    })
+    for (let position = 0; position < 52; position++) {
+      counts[cardIndex.get(shuffled[position])! * 52 + position]++
+    }
+    const topCard = cardIndex.get(shuffled[0])!
+    if (previousTopCard !== undefined) handCorrelation.add(previousTopCard, topCard)
+    previousTopCard = topCard
+  }
+
+  const expected = hands / 52
+  let chiSquare = 0
+  for (const count of counts) chiSquare += (count - expected) ** 2 / expected
+
+  const handZ = handCorrelation.z()
+  const drawZ = drawCorrelation.z()
+  const tests = [
+    testResult('Card positions', chiSquare, chiSquareP(chiSquare, 51 * 51)),
+    testResult('Serial correlation', handZ, twoSidedNormalP(handZ)),
+    testResult('Draw correlation', drawZ, twoSidedNormalP(drawZ))
+  ]
+  return { hands, tests, passed: tests.every(test => test.passed) }
+}
+
+// Self-test of a registered algorithm. Seeded algorithms use seed, or 0 without one.
+export function runRngAlgorithmSelfTest(
+  algorithm: RngAlgorithm,
+  seed?: number | string,
+  hands = DEFAULT_RNG_SELF_TEST_HANDS
+): RngSelfTestResult {
+  if (algorithm === 'crypto') return { algorithm, ...runRngSelfTest(createSimulationRng(undefined, algorithm), hands) }
+  const usedSeed = seed ?? 0
+  return { algorithm, seed: usedSeed, ...runRngSelfTest(createSimulationRng(seedToUint32(usedSeed), algorithm), hands) }
+}
@@ -0,0 +1,280 @@
+// rng.ts
+// Random number generators for dealing hands. Seeded runs deal each hand from its own values, looked
+// up by the hand's index, so a seed reproduces a run however it is split between workers.
+
+export type RNG = () => number
+
+// mulberry32 (Tommy Ettinger): a small, fast generator with 32 bits of state
+export function mulberry32(seed: number): RNG {
+  let t = seed >>> 0
+  return function() {
+    t += 0x6D2B79F5
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r ^= r + Math.imul(r ^ (r >>> 7), r | 61)
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function stringToSeed(str: string): number {
+  let h = 2166136261 >>> 0
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 16777619) >>> 0
+  }
+  return h >>> 0
+}
+
+// Random values for each hand of a run, looked up by the hand's index in the whole run rather
+// than drawn in sequence, so a hand is dealt the same whichever worker deals it
+export interface HandRng {
+  forHand(hand: number): RNG
+}
+
+// High 32 bits of the 64-bit product of two unsigned 32-bit integers (Math.imul gives the low 32)
+function mulHi(a: number, b: number): number {
+  const aLo = a & 0xffff
+  const aHi = a >>> 16
+  const bLo = b & 0xffff
+  const bHi = b >>> 16
+  const loHi = aLo * bHi
+  const hiLo = aHi * bLo
+  const mid = ((aLo * bLo) >>> 16) + (loHi & 0xffff) + (hiLo & 0xffff)
+  return (aHi * bHi + (loHi >>> 16) + (hiLo >>> 16) + (mid >>> 16)) >>> 0
+}
+
+const PHILOX_M0 = 0xD2511F53
+const PHILOX_M1 = 0xCD9E8D57
+const PHILOX_W0 = 0x9E3779B9
+const PHILOX_W1 = 0xBB67AE85
+
+// Writes the Philox4x32-10 block of counter (c0, c1, c2, c3) under key (k0, k1) into out. Kept free
+// of allocations since every hand of a seeded run needs 13 blocks.
+function philoxBlock(c0: number, c1: number, c2: number, c3: number, k0: number, k1: number, out: Uint32Array) {
+  for (let round = 0; round < 10; round++) {
+    if (round > 0) {
+      k0 = (k0 + PHILOX_W0) >>> 0
+      k1 = (k1 + PHILOX_W1) >>> 0
+    }
+    const hi0 = mulHi(PHILOX_M0, c0)
+    const lo0 = Math.imul(PHILOX_M0, c0) >>> 0
+    const hi1 = mulHi(PHILOX_M1, c2)
+    const lo1 = Math.imul(PHILOX_M1, c2) >>> 0
+    c0 = (hi1 ^ c1 ^ k0) >>> 0
+    c1 = lo1
+    c2 = (hi0 ^ c3 ^ k1) >>> 0
+    c3 = lo0
+  }
+  out[0] = c0
+  out[1] = c1
+  out[2] = c2
+  out[3] = c3
+}
+
+// Philox4x32-10 (Salmon et al., "Parallel random numbers: as easy as 1, 2, 3"): a counter-based
+// generator mapping a 128-bit counter and a 64-bit key to four random 32-bit words
+export function philox4x32(counter: number[], key: number[]): number[] {
+  const out = new Uint32Array(4)
+  philoxBlock(counter[0] >>> 0, counter[1] >>> 0, counter[2] >>> 0, counter[3] >>> 0, key[0] >>> 0, key[1] >>> 0, out)
+  return Array.from(out)
+}
+
+// Philox keyed by a 32-bit seed. Hand h draws from the counters (h, h / 2^32, block, 0), four
+// values per block, so any hand's values are computed directly.
+export function philoxHandRng(seed: number): HandRng {
+  const key = seed >>> 0
+  return {
+    forHand(hand) {
+      const low = hand % 4294967296
+      const high = Math.floor(hand / 4294967296)
+      const block = new Uint32Array(4)
+      let counter = 0
+      let next = 4
+      return () => {
+        if (next === 4) {
+          philoxBlock(low, high, counter++, 0, key, 0, block)
+          next = 0
+        }
+        return block[next++] / 4294967296
+      }
+    }
+  }
+}
+
+// xoshiro128** (Blackman and Vigna): 128 bits of state, passes BigCrush. The state must not be all
+// zeros.
+export function xoshiro128ss(a: number, b: number, c: number, d: number): RNG {
+  let s0 = a >>> 0
+  let s1 = b >>> 0
+  let s2 = c >>> 0
+  let s3 = d >>> 0
+  if ((s0 | s1 | s2 | s3) === 0) s0 = 1
+  return () => {
+    const product = Math.imul(s1, 5)
+    const result = Math.imul((product << 7) | (product >>> 25), 9) >>> 0
+    const t = s1 << 9
+    s2 ^= s0
+    s3 ^= s1
+    s1 ^= s2
+    s0 ^= s3
+    s2 ^= t
+    s3 = (s3 << 11) | (s3 >>> 21)
+    return result / 4294967296
+  }
+}
+
+const PCG_MULTIPLIER_HI = 0x5851F42D
+const PCG_MULTIPLIER_LO = 0x4C957F2D
+
+// PCG32 (O'Neill, XSH RR 64/32): a 64-bit LCG with a permuted output, seeded like pcg32_srandom_r
+// with an initial state and a stream selector. The 64-bit state is kept as two 32-bit halves.
+export function pcg32(initState: [number, number], initSeq: [number, number]): RNG {
+  let hi = 0
+  let lo = 0
+  const incHi = ((initSeq[0] << 1) | (initSeq[1] >>> 31)) >>> 0
+  const incLo = ((initSeq[1] << 1) | 1) >>> 0
+
+  const step = () => {
+    const productLo = Math.imul(lo, PCG_MULTIPLIER_LO) >>> 0
+    const productHi = (mulHi(lo, PCG_MULTIPLIER_LO) + Math.imul(hi, PCG_MULTIPLIER_LO) + Math.imul(lo, PCG_MULTIPLIER_HI)) >>> 0
+    lo = (productLo + incLo) >>> 0
+    hi = (productHi + incHi + (lo < productLo ? 1 : 0)) >>> 0
+  }
+  const add = (addHi: number, addLo: number) => {
+    const sum = (lo + addLo) >>> 0
+    hi = (hi + addHi + (sum < lo ? 1 : 0)) >>> 0
+    lo = sum
+  }
+
+  step()
+  add(initState[0] >>> 0, initState[1] >>> 0)
+  step()
+
+  return () => {
+    const oldHi = hi
+    const oldLo = lo
+    step()
+    const xHi = oldHi ^ (oldHi >>> 18)
+    const xLo = oldLo ^ ((oldLo >>> 18) | (oldHi << 14))
+    const xorshifted = ((xLo >>> 27) | (xHi << 5)) >>> 0
+    const rot = oldHi >>> 27
+    return (((xorshifted >>> rot) | (xorshifted << ((32 - rot) & 31))) >>> 0) / 4294967296
+  }
+}
+
+// Values from the platform's crypto source where available, fetched a buffer at a time, else
+// Math.random. Cannot be seeded.
+export function cryptoRng(): RNG {
+  const cryptoSource = (globalThis as any).crypto
+  if (typeof cryptoSource !== 'undefined' && 'getRandomValues' in cryptoSource) {
+    const buffer = new Uint32Array(1024)
+    let next = buffer.length
+    return () => {
+      if (next === buffer.length) {
+        cryptoSource.getRandomValues(buffer)
+        next = 0
+      }
+      return buffer[next++] / 4294967296
+    }
+  }
+  return Math.random
+}
+
+export type RngAlgorithm = 'philox' | 'mulberry32' | 'xoshiro128ss' | 'pcg32' | 'crypto'
+
+export interface RngAlgorithmInfo {
+  id: RngAlgorithm
+  name: string
+  description: string
+  seeded: boolean // Whether a seed reproduces a run
+}
+
+export const RNG_ALGORITHMS: RngAlgorithmInfo[] = [
+  {
+    id: 'philox',
+    name: 'Philox4x32-10',
+    description: 'Counter-based: each hand\'s values are computed directly from the seed and the hand number',
+    seeded: true
+  },
+  {
+    id: 'mulberry32',
+    name: 'mulberry32',
+    description: 'Fast 32-bit generator. Each hand starts from one of 2^32 states, so a run of 10^8 hands deals about a million repeated decks; choose another generator for long runs.',
+    seeded: true
+  },
+  {
+    id: 'xoshiro128ss',
+    name: 'xoshiro128**',
+    description: 'Fast generator with 128 bits of state',
+    seeded: true
+  },
+  {
+    id: 'pcg32',
+    name: 'PCG32',
+    description: 'Permuted 64-bit LCG with 64 bits of state',
+    seeded: true
+  },
+  {
+    id: 'crypto',
+    name: 'Crypto',
+    description: 'The platform\'s cryptographically secure source. Runs cannot be reproduced.',
+    seeded: false
+  }
+]
+
+export function isRngAlgorithm(value: string): value is RngAlgorithm {
+  return RNG_ALGORITHMS.some(info => info.id === value)
+}
+
+// The 32-bit seed of a run: numbers directly, anything else hashed. A string of digits naming a
+// 32-bit value is read as that number, so a made-up seed typed back in reproduces its run.
+export function seedToUint32(randomSeed: number | string): number {
+  if (typeof randomSeed === 'number') return randomSeed >>> 0
+  if (/^\d{1,10}$/.test(randomSeed) && Number(randomSeed) <= 0xffffffff) return Number(randomSeed)
+  return stringToSeed(randomSeed)
+}
+
+// A seeded algorithm as a HandRng. Philox gives each hand's values directly; the stream generators
+// start each hand from a state taken from the Philox block (hand, hand / 2^32, 0, 1), which no
+// Philox deal uses, so every algorithm deals a hand the same whichever worker deals it.
+export function createHandRng(algorithm: Exclude<RngAlgorithm, 'crypto'>, seed: number): HandRng {
+  if (algorithm === 'philox') return philoxHandRng(seed)
+  const key = seed >>> 0
+  const state = new Uint32Array(4)
+  return {
+    forHand(hand) {
+      philoxBlock(hand % 4294967296, Math.floor(hand / 4294967296), 0, 1, key, 0, state)
+      switch (algorithm) {
+        case 'mulberry32':
+          // Its state holds one word, so hands repeat by the birthday bound after about 2^16 of them
+          return mulberry32(state[0])
+        case 'xoshiro128ss':
+          return xoshiro128ss(state[0], state[1], state[2], state[3])
+        case 'pcg32':
+          return pcg32([state[0], state[1]], [state[2], state[3]])
+      }
+    }
+  }
+}
+
+// The generator and seed a run used, recorded with its results
+export interface RunRng {
+  algorithm: RngAlgorithm
+  seed?: number | string // Absent for the crypto source
+}
+
+// Settles the generator of a run before it is split between workers: Philox when a seed is given
+// and crypto otherwise, and a random seed for a seeded algorithm chosen without one, so every worker
+// shares it and the results record it
+export function resolveRunRng(randomSeed?: number | string, algorithm?: RngAlgorithm): RunRng {
+  const chosen = algorithm ?? (typeof randomSeed !== 'undefined' ? 'philox' : 'crypto')
+  if (chosen === 'crypto') return { algorithm: chosen }
+  return { algorithm: chosen, seed: randomSeed ?? Math.floor(cryptoRng()() * 4294967296) }
+}
+
+// Builds the simulation RNG: the chosen algorithm as a HandRng keyed by the seed, so a seed gives
+// the same hands however a run is split, or one crypto stream for the whole run
+export function createSimulationRng(randomSeed?: number | string, algorithm?: RngAlgorithm): RNG | HandRng {
+  const { algorithm: chosen, seed } = resolveRunRng(randomSeed, algorithm)
+  if (chosen === 'crypto') return cryptoRng()
+  return createHandRng(chosen, seedToUint32(seed!))
+}
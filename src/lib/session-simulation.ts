@@ -0,0 +1,247 @@
+// session-simulation.ts
+// What a visit to the table looks like rather than the long-run average: many sessions of a fixed
+// length, each starting from the same bankroll and ending early if the player can no longer cover
+// the table minimum and side bets. Hands are dealt and settled as performSimulation deals and
+// settles them.
+
+import {
+  BONUS_BETS,
+  baseGameOutcome,
+  createDeck,
+  DEFAULT_GAME_RULES,
+  findBestFlush,
+  findBestStraightFlush,
+  flushFeature,
+  getPlayWager,
+  matchPaytableLine,
+  settleBaseGame,
+  shuffleDeckWithRng,
+  sortHandBySuitThenRank
+} from './simulation-core'
+import type { Card, GameRulesConfig, HandRng, PayoutConfig, PlayerStrategy, RNG, RunRng } from './simulation-core'
+
+export interface SessionConfig {
+  bankroll: number // Starting bankroll, in dollars
+  tableMinimum: number // Ante on every hand, and the stake of each side bet made
+  sideBets: string[] // Bonus bet types made on every hand, from BONUS_BETS
+  handsPerHour: number
+  hours: number // Session length; a ruined player leaves sooner
+}
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  bankroll: 500,
+  tableMinimum: 10,
+  sideBets: [],
+  handsPerHour: 60,
+  hours: 4
+}
+
+export const DEFAULT_SESSIONS = 10000
+
+// Percentiles reported for each distribution
+export const SESSION_PERCENTILES = [5, 25, 50, 75, 95]
+
+const HISTOGRAM_BINS = 40
+
+export interface HistogramBin {
+  lower: number
+  upper: number // Exclusive, except for the last bin
+  count: number
+  frequency: number // Percent of the values summarised
+}
+
+export interface DistributionStats {
+  count: number // Values summarised
+  mean: number
+  stdDev: number
+  min: number
+  max: number
+  percentiles: { percentile: number; value: number }[] // One per SESSION_PERCENTILES
+  histogram: HistogramBin[]
+}
+
+export interface SessionSummary {
+  config: SessionConfig
+  sessions: number // Sessions played
+  handsPerSession: number // Hands in a session that is not cut short by ruin
+  endingBankroll: DistributionStats // Dollars
+  winningSessions: number // Percent of sessions ending above the starting bankroll
+  ruinedSessions: number
+  riskOfRuin: number // Percent of sessions left unable to cover the next hand's initial wagers before the session length
+  timeToRuin?: DistributionStats // Hours played by the ruined sessions; absent when none were ruined
+  peakDrawdown: DistributionStats // Largest fall from the session's running high, in dollars
+  partial?: boolean // The run was cancelled; the results cover only the sessions finished before it stopped
+  rng?: RunRng // The generator and seed that dealt the hands
+}
+
+export function handsPerSession(config: SessionConfig): number {
+  return Math.max(1, Math.round(config.handsPerHour * config.hours))
+}
+
+// Returns a message for each problem with a session configuration, or none when it can be run
+export function validateSessionConfig(config: SessionConfig): string[] {
+  const errors: string[] = []
+  if (!(config.tableMinimum > 0)) errors.push('the table minimum must be positive')
+  if (!(config.bankroll >= 0)) errors.push('the bankroll cannot be negative')
+  else if (config.tableMinimum > 0 && config.bankroll < sessionStake(config)) {
+    errors.push('the bankroll must cover the table minimum and side bets of one hand')
+  }
+  if (!(config.handsPerHour > 0)) errors.push('hands per hour must be positive')
+  if (!(config.hours > 0)) errors.push('the session length must be positive')
+  for (const betType of config.sideBets) {
+    if (!BONUS_BETS.some(bet => bet.betType === betType)) errors.push(`unknown side bet "${betType}"`)
+  }
+  return errors
+}
+
+// Wagers placed on every hand before the Play decision
+function sessionStake(config: SessionConfig): number {
+  return config.tableMinimum * (1 + config.sideBets.length)
+}
+
+// Plays one hand for a player with bankroll on hand and returns its net. The Play is cut to the
+// largest whole multiple of the table minimum that the bankroll left after the initial wagers
+// covers; a player who cannot cover one folds.
+function playSessionHand(
+  deck: Card[],
+  rng: RNG,
+  bankroll: number,
+  config: SessionConfig,
+  sideBets: (typeof BONUS_BETS)[number][],
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig
+): number {
+  const ante = config.tableMinimum
+  const shuffledDeck = shuffleDeckWithRng(deck, rng)
+  const playerHand = sortHandBySuitThenRank(shuffledDeck.slice(0, 7))
+  const playerFlush = findBestFlush(playerHand)
+
+  const affordable = Math.floor((bankroll - sessionStake(config)) / ante) * ante
+  const playWager = Math.min(getPlayWager(playerFlush, strategy, ante, gameRules), affordable)
+  let net = -ante
+  if (playWager > 0) {
+    const dealerFlush = findBestFlush(sortHandBySuitThenRank(shuffledDeck.slice(7, 14)))
+    net = settleBaseGame(baseGameOutcome(playerFlush, dealerFlush, gameRules), ante, playWager, gameRules)
+  }
+
+  if (sideBets.length > 0) {
+    const features = { flush: flushFeature(playerFlush), straightFlush: findBestStraightFlush(playerHand) }
+    for (const { paytable } of sideBets) {
+      const table = payoutConfig[paytable]
+      const line = matchPaytableLine(table, features[table.hand])
+      net += line ? ante * line.payout : -ante
+    }
+  }
+  return net
+}
+
+// Summarises values with their percentiles and a histogram of equal-width bins
+export function buildDistributionStats(values: ArrayLike<number>, bins = HISTOGRAM_BINS): DistributionStats {
+  const sorted = Float64Array.from(values).sort()
+  const count = sorted.length
+  if (count === 0) {
+    return { count, mean: 0, stdDev: 0, min: 0, max: 0, percentiles: SESSION_PERCENTILES.map(percentile => ({ percentile, value: 0 })), histogram: [] }
+  }
+  let sum = 0
+  let sumSquared = 0
+  for (const value of sorted) {
+    sum += value
+    sumSquared += value * value
+  }
+  const mean = sum / count
+  const min = sorted[0]
+  const max = sorted[count - 1]
+  // Nearest-rank percentiles
+  const percentiles = SESSION_PERCENTILES.map(percentile => ({
+    percentile,
+    value: sorted[Math.min(count - 1, Math.max(0, Math.ceil((percentile / 100) * count) - 1))]
+  }))
+
+  const width = max > min ? (max - min) / bins : 1
+  const histogram: HistogramBin[] = Array.from({ length: max > min ? bins : 1 }, (_, i) => ({
+    lower: min + i * width,
+    upper: min + (i + 1) * width,
+    count: 0,
+    frequency: 0
+  }))
+  for (const value of sorted) histogram[Math.min(histogram.length - 1, Math.floor((value - min) / width))].count++
+  for (const bin of histogram) bin.frequency = (bin.count / count) * 100
+
+  return {
+    count,
+    mean,
+    stdDev: Math.sqrt(Math.max(0, sumSquared / count - mean * mean)),
+    min,
+    max,
+    percentiles,
+    histogram
+  }
+}
+
+// Sessions played between yields to the event loop
+const SESSION_YIELD_INTERVAL = 100
+
+// Plays numSessions sessions. With a HandRng each hand is dealt by its index in the whole run
+// (session * handsPerSession + hand), so a seed gives the same sessions however they are played.
+export async function performSessionSimulation(
+  numSessions: number,
+  config: SessionConfig,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  rng: RNG | HandRng,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SessionSummary> {
+  const errors = validateSessionConfig(config)
+  if (errors.length > 0) throw new Error(`Invalid session configuration: ${errors.join('; ')}`)
+
+  const deck = createDeck()
+  const hands = handsPerSession(config)
+  const stake = sessionStake(config)
+  const sideBets = BONUS_BETS.filter(bet => config.sideBets.includes(bet.betType))
+  const endingBankrolls = new Float64Array(numSessions)
+  const drawdowns = new Float64Array(numSessions)
+  const ruinHours: number[] = []
+  let winning = 0
+
+  let sessionsPlayed = 0
+  for (let session = 0; session < numSessions; session++) {
+    if (signal?.aborted) break
+    let bankroll = config.bankroll
+    let peak = bankroll
+    let drawdown = 0
+    let hand = 0
+    for (; hand < hands && bankroll >= stake; hand++) {
+      const handRng = typeof rng === 'function' ? rng : rng.forHand(session * hands + hand)
+      bankroll += playSessionHand(deck, handRng, bankroll, config, sideBets, payoutConfig, strategy, gameRules)
+      if (bankroll > peak) peak = bankroll
+      else if (peak - bankroll > drawdown) drawdown = peak - bankroll
+    }
+    // A session that plays every hand is not ruined, however little is left
+    if (hand < hands) ruinHours.push(hand / config.handsPerHour)
+    if (bankroll > config.bankroll) winning++
+    endingBankrolls[session] = bankroll
+    drawdowns[session] = drawdown
+    sessionsPlayed++
+
+    if ((onProgress || signal) && session % SESSION_YIELD_INTERVAL === 0) {
+      onProgress?.((session / numSessions) * 100)
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+  }
+
+  return {
+    config,
+    sessions: sessionsPlayed,
+    handsPerSession: hands,
+    endingBankroll: buildDistributionStats(endingBankrolls.subarray(0, sessionsPlayed)),
+    winningSessions: sessionsPlayed > 0 ? (winning / sessionsPlayed) * 100 : 0,
+    ruinedSessions: ruinHours.length,
+    riskOfRuin: sessionsPlayed > 0 ? (ruinHours.length / sessionsPlayed) * 100 : 0,
+    ...(ruinHours.length > 0 && { timeToRuin: buildDistributionStats(ruinHours) }),
+    peakDrawdown: buildDistributionStats(drawdowns.subarray(0, sessionsPlayed)),
+    ...(sessionsPlayed < numSessions && { partial: true })
+  }
+}
@@ -1,34 +1,94 @@
 // simulation-core.ts
 // Shared simulation logic (no DOM / Worker APIs) used by main thread and worker.
 
+import { matchPaytableLine, paytableLineLabel } from './paytables'
+import type { Paytable, PaytableFeature, PayoutConfig } from './paytables'
+import { createHandRng, seedToUint32 } from './rng'
+import type { HandRng, RNG, RngAlgorithm, RunRng } from './rng'
+
 export type Suit = '♠' | '♥' | '♦' | '♣'
 export type Rank = 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14
 export interface Card { rank: Rank; suit: Suit }
 
-export interface PayoutConfig {
-  flushRush: {
-    sevenCard: number
-    sixCard: number
-    fiveCard: number
-    fourCard: number
-  }
-  superFlushRush: {
-    sevenCardStraight: number
-    sixCardStraight: number
-    fiveCardStraight: number
-    fourCardStraight: number
-    threeCardStraight: number
+export * from './paytables'
+export * from './rng'
+
+export interface ConfidenceInterval {
+  lower: number
+  upper: number
+}
+
+// How a base-game wager settles: paid even money, returned, or lost
+export type Settlement = 'win' | 'push' | 'lose'
+
+// Base-game rules that vary between jurisdictions. Plain data so it can be posted to workers.
+export interface GameRulesConfig {
+  // The dealer qualifies with more than minFlushLength flush cards, or exactly minFlushLength
+  // with a high card of at least minHighCard
+  dealerQualifier: {
+    minFlushLength: number
+    minHighCard: number
   }
+  // Maximum Play wager as a multiple of the Ante, indexed by the player's flush length (0-7)
+  maxPlayMultiples: number[]
+  // How the Ante and Play settle when the dealer does not qualify
+  dealerNotQualified: { ante: Settlement; play: Settlement }
+  // How the Ante and Play settle when a qualifying dealer ties the player
+  tie: { ante: Settlement; play: Settlement }
+}
+
+export const DEFAULT_GAME_RULES: GameRulesConfig = {
+  dealerQualifier: { minFlushLength: 3, minHighCard: 9 },
+  maxPlayMultiples: [1, 1, 1, 1, 1, 2, 3, 3],
+  dealerNotQualified: { ante: 'win', play: 'push' },
+  tie: { ante: 'push', play: 'push' }
+}
+
+// One line of a bet's paytable, as reported in a par sheet
+export interface PaylineResult {
+  payline: string // e.g. '5 Card Flush', or NO_WIN_PAYLINE for losing hands
+  payout: number // odds-to-1 (-1 for the losing line)
+  hits: number
+  net: number // Sum of net outcomes of the hands on this line, kept so results can be merged
+  hitFrequency: number // Percent of hands landing on this line
+  returnContribution: number // Share of expectedReturn from this line, in percent of total bet
 }
 
 export interface SimulationResult {
   betType: string
   totalBet: number
   totalWon: number
-  expectedReturn: number
+  expectedReturn: number // Net as a percent of everything wagered: the element of risk for the base game
+  totalInitialBet: number // Wagers placed before any decision: the Ante for the base game, the whole stake otherwise
+  returnPerInitialBet: number // Net as a percent of totalInitialBet: the house edge per Ante for the base game
+  averageBet: number // Average amount wagered per hand, Play included
   handsWon: number
   handsLost: number
+  handsPushed: number
   winRate: number
+  sumNet: number // Sum of per-hand net outcomes (won - bet), kept so results can be merged
+  sumNetSquared: number // Sum of squared per-hand net outcomes
+  variance: number // Variance of the net outcome per hand, in betting units squared
+  stdDevPerHand: number // Standard deviation of the net outcome per hand, in betting units
+  stdDevPerUnit: number // stdDevPerHand per unit of initial bet (of average bet for a wager with none)
+  volatilityIndex: number // VOLATILITY_INDEX_Z times stdDevPerUnit
+  hitFrequency: number // Percent of hands on which the bet pays anything, pushes excluded
+  standardError: number // Standard error of expectedReturn, in percentage points
+  confidenceInterval95: ConfidenceInterval // 95% confidence interval of expectedReturn, in percent
+  paylines: PaylineResult[] // Paytable breakdown, empty for bets that do not track one
+}
+
+// Base-game statistics for player hands whose best flush has exactly 3 cards, by high card.
+// Play figures assume the hand is played (1x Play) whatever the configured threshold says.
+export interface ThreeCardFlushStats {
+  highCard: number
+  hands: number
+  dealerQualified: number // Hands where the dealer qualified
+  playNet: number // Sum of base-game net outcomes had the hand been played, in Ante units
+  frequency: number // Percent of all hands
+  dealerQualificationRate: number // Percent of these hands where the dealer qualified
+  playEV: number // Expected base-game net per hand when playing, in Ante units
+  foldEV: number // Expected base-game net per hand when folding (always -1 Ante)
 }
 
 export interface HandDistributionStats {
@@ -37,61 +97,181 @@ export interface HandDistributionStats {
   belowMinimum: number
   aboveMinimumPercentage: number
   belowMinimumPercentage: number
+  threeCardFlushByHighCard: ThreeCardFlushStats[]
+  flushShapes: FlushShapeStats[] // Every best flush length and high card, for both sides
+  flushOutcomes?: FlushOutcomeStats[] // Sampled runs only; the exact analysis does not split deals by the dealer's flush
+}
+
+// How often the player's and the dealer's best flush has a given length and high card
+export interface FlushShapeStats {
+  length: number
+  highCard: number
+  player: number // Hands where the player's best flush has this shape
+  dealer: number
+  playerFrequency: number // Percent of all hands
+  dealerFrequency: number
 }
 
+// How hands with a given pair of best flush lengths resolve, as if the player had played
+export interface FlushOutcomeStats {
+  playerLength: number
+  dealerLength: number
+  hands: number
+  playerWins: number
+  dealerWins: number
+  push: number
+  dealerNotQualified: number
+  frequency: number // Percent of all hands
+}
+
+// How a hand's base game ends: the player folds, or plays and the hand resolves against the dealer
+export type BaseGameResolution = 'fold' | BaseGameOutcome
+
+// Base-game hands that ended one way, and what they contributed to the base game's return
+export interface BaseGameOutcomeStats {
+  outcome: BaseGameResolution
+  hands: number
+  anteNet: number // Sum of Ante nets, in Ante units
+  playNet: number // Sum of Play nets
+  playWagered: number // Sum of Play wagers
+  frequency: number // Percent of all hands
+  returnContribution: number // Net of these hands as a percent of everything wagered on the base game
+}
+
+// Where the base game's return comes from
+export interface BaseGameBreakdown {
+  dealerQualified: number // Hands where the dealer qualified, whether or not the player played
+  dealerQualificationRate: number // Percent of all hands
+  outcomes: BaseGameOutcomeStats[] // One per resolution; their return contributions add up to the base game's return
+  wagers: SimulationResult[] // The Ante and the Play wager settled on their own
+}
+
+export const NO_WIN_PAYLINE = 'No Win'
+
 export class BetResults {
   totalBet: number
   totalWon: number
+  totalInitialBet: number
   handsWon: number
   handsLost: number
+  handsPushed: number
+  sumNet: number
+  sumNetSquared: number
+  paylines: { [payline: string]: { payout: number; hits: number; net: number } }
 
   constructor() {
     this.totalBet = 0
     this.totalWon = 0
+    this.totalInitialBet = 0
     this.handsWon = 0
     this.handsLost = 0
+    this.handsPushed = 0
+    this.sumNet = 0
+    this.sumNetSquared = 0
+    this.paylines = {}
   }
 
   // Record a win
-  recordWin(bet: number, won: number) {
-    this.handsWon++
-    this.totalBet += bet
-    this.totalWon += bet + won // Include returned bet
+  // weight lets exact analysis record a probability instead of a single hand. initialBet is the part
+  // of bet placed before any decision, all of it unless given.
+  recordWin(bet: number, won: number, weight = 1, initialBet = bet) {
+    this.handsWon += weight
+    this.totalBet += bet * weight
+    this.totalInitialBet += initialBet * weight
+    this.totalWon += (bet + won) * weight // Include returned bet
+    this.recordNet(won, weight)
   }
 
   // Record a loss
-  recordLoss(bet: number) {
-    this.handsLost++
-    this.totalBet += bet
+  recordLoss(bet: number, weight = 1, initialBet = bet) {
+    this.handsLost += weight
+    this.totalBet += bet * weight
+    this.totalInitialBet += initialBet * weight
+    this.recordNet(-bet, weight)
   }
 
   // Record a push
-  recordPush(bet: number) {
-    this.totalBet += bet
-    this.totalWon += bet // Return bet
+  recordPush(bet: number, weight = 1, initialBet = bet) {
+    this.handsPushed += weight
+    this.totalBet += bet * weight
+    this.totalInitialBet += initialBet * weight
+    this.totalWon += bet * weight // Return bet
+  }
+
+  // Record a hand settled for a net amount (won - bet), which may return only part of the bet
+  recordOutcome(bet: number, net: number, weight = 1, initialBet = bet) {
+    if (net > 0) this.handsWon += weight
+    else if (net < 0) this.handsLost += weight
+    else this.handsPushed += weight
+    this.totalBet += bet * weight
+    this.totalInitialBet += initialBet * weight
+    this.totalWon += (bet + net) * weight
+    this.recordNet(net, weight)
   }
-}
 
-export type RNG = () => number
+  // Accumulate the per-hand net outcome used for variance and confidence intervals
+  private recordNet(net: number, weight: number) {
+    this.sumNet += net * weight
+    this.sumNetSquared += net * net * weight
+  }
+
+  // Record which paytable line a hand landed on, alongside recordWin/recordLoss
+  recordPayline(payline: string, payout: number, net: number, weight = 1) {
+    if (!this.paylines[payline]) this.paylines[payline] = { payout, hits: 0, net: 0 }
+    this.paylines[payline].hits += weight
+    this.paylines[payline].net += net * weight
+  }
 
-// Utilities
-export function mulberry32(seed: number): RNG {
-  let t = seed >>> 0
-  return function() {
-    t += 0x6D2B79F5
-    let r = Math.imul(t ^ (t >>> 15), 1 | t)
-    r ^= r + Math.imul(r ^ (r >>> 7), r | 61)
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  // Add the totals of a result computed elsewhere (e.g. by another worker)
+  addResult(result: SimulationResult) {
+    for (const line of result.paylines) {
+      if (!this.paylines[line.payline]) this.paylines[line.payline] = { payout: line.payout, hits: 0, net: 0 }
+      this.paylines[line.payline].hits += line.hits
+      this.paylines[line.payline].net += line.net
+    }
+    this.totalBet += result.totalBet
+    this.totalWon += result.totalWon
+    this.totalInitialBet += result.totalInitialBet
+    this.handsWon += result.handsWon
+    this.handsLost += result.handsLost
+    this.handsPushed += result.handsPushed
+    this.sumNet += result.sumNet
+    this.sumNetSquared += result.sumNetSquared
   }
 }
 
-export function stringToSeed(str: string): number {
-  let h = 2166136261 >>> 0
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i)
-    h = Math.imul(h, 16777619) >>> 0
+// Play multiple of the Ante (0 = fold) for each player best flush, keyed by flushKey
+export type StrategyTable = { [flushKey: string]: number }
+
+// How the player plays best flushes of one length
+export interface FlushLengthRule {
+  flushLength: number
+  // Weakest flush to play, compared rank by rank like compareFlushes (e.g. [10, 8, 6] plays 10-8-6
+  // or better, [11] plays any Jack-high or better). Empty or omitted plays every flush of this length.
+  minRanks?: number[]
+  // Play wager as a multiple of the Ante, capped at the maximum allowed; defaults to the maximum.
+  // 0 always folds.
+  playMultiple?: number
+}
+
+// The player's Play decision. Plain data so it can be posted to workers.
+// - rules: one rule per flush length; lengths without a rule fold
+// - table: a play multiple for every distinct best flush (e.g. from solveOptimalStrategy);
+//   flushes missing from the table fold
+export type PlayerStrategy =
+  | { type: 'rules'; rules: FlushLengthRule[] }
+  | { type: 'table'; table: StrategyTable }
+
+// Returns the strategy that folds 2-card flushes and 3-card flushes below minThreeCardFlushRank
+// (0 = no minimum) and plays everything else at the maximum Play wager
+export function thresholdStrategy(minThreeCardFlushRank: number): PlayerStrategy {
+  return {
+    type: 'rules',
+    rules: [3, 4, 5, 6, 7].map(flushLength => ({
+      flushLength,
+      minRanks: flushLength === 3 && minThreeCardFlushRank !== 0 ? [minThreeCardFlushRank] : []
+    }))
   }
-  return h >>> 0
 }
 
 export function createDeck(): Card[] {
@@ -160,6 +340,40 @@ export function findLongestStraightFlush(cards: Card[]): number {
   return longest
 }
 
+// Returns the length and top card of the best straight within a flush: the longest, then the
+// highest. An Ace also plays low, so A-2-3 is a 3-high straight.
+// Assumes flush is sorted in descending order
+export function findBestStraight(flush: Card[]): PaytableFeature {
+  const present = new Set<number>(flush.map(card => card.rank))
+  if (present.has(14)) present.add(1)
+  let best: PaytableFeature = { length: 0, highCard: 0 }
+  let length = 0
+  for (let rank = 1; rank <= 14; rank++) {
+    length = present.has(rank) ? length + 1 : 0
+    // A lone low Ace is the same card as the Ace-high single
+    if (length > 0 && rank > 1 && length >= best.length) best = { length, highCard: rank }
+  }
+  return best
+}
+
+// Returns the length and top card of the best straight flush in a hand
+// Assumes cards are sorted by suit then descending rank
+export function findBestStraightFlush(cards: Card[]): PaytableFeature {
+  const suitGroups = divideHandIntoSuits(cards)
+  let best: PaytableFeature = { length: 0, highCard: 0 }
+  for (const suit in suitGroups) {
+    const straight = findBestStraight(suitGroups[suit])
+    if (straight.length > best.length || (straight.length === best.length && straight.highCard > best.highCard)) best = straight
+  }
+  return best
+}
+
+// Returns the length and high card of a flush as read by a paytable
+// Assumes flush is sorted by descending rank
+export function flushFeature(flush: Card[]): PaytableFeature {
+  return { length: flush.length, highCard: flush.length > 0 ? highCard(flush) : 0 }
+}
+
 // Returns the length of the longest straight considering Ace as low (1)
 // Assumes flush is sorted in descending order
 export function findLowAceStraight(flush: Card[]): number {
@@ -222,12 +436,13 @@ export function divideHandIntoSuits(cards: Card[]): { [suit: string]: Card[]; }
   return suitGroups;
 }
 
-// Dealer qualifies with more than 3 cards or with 3 cards and high card 9 or above
+// Dealer qualifies with more than 3 cards or with 3 cards and high card 9 or above (by default)
 // Assumes flush is sorted by descending rank
-export function dealerQualifies(flush: Card[]): boolean {
-  if (flush.length > 3) return true
-  if (flush.length < 3) return false
-  return highCard(flush) >= 9
+export function dealerQualifies(flush: Card[], gameRules: GameRulesConfig = DEFAULT_GAME_RULES): boolean {
+  const { minFlushLength, minHighCard } = gameRules.dealerQualifier
+  if (flush.length > minFlushLength) return true
+  if (flush.length < minFlushLength) return false
+  return highCard(flush) >= minHighCard
 }
 
 // Compares two flushes, returns positive if firstFlush is better, negative if secondFlush is better, zero if equal
@@ -245,46 +460,486 @@ export function compareFlushes(firstFlush: Card[], secondFlush: Card[]): number
 }
 
 // Returns the maximum play wager based on number of flush cards
-export function getMaxPlayWager(flushCards: number, anteAmount: number): number {
-  if (flushCards >= 6) return anteAmount * 3
-  if (flushCards >= 5) return anteAmount * 2
-  return anteAmount * 1
-}
-
-// Returns the Flush Rush payout multiplier based on number of flush cards
-export function calculateFlushRushPayout(flushCards: number, payoutConfig: PayoutConfig): number {
-  if (flushCards >= 7) return payoutConfig.flushRush.sevenCard
-  if (flushCards >= 6) return payoutConfig.flushRush.sixCard
-  if (flushCards >= 5) return payoutConfig.flushRush.fiveCard
-  if (flushCards >= 4) return payoutConfig.flushRush.fourCard
-  return 0
+export function getMaxPlayWager(flushCards: number, anteAmount: number, gameRules: GameRulesConfig = DEFAULT_GAME_RULES): number {
+  const multiples = gameRules.maxPlayMultiples
+  return anteAmount * multiples[Math.min(flushCards, multiples.length - 1)]
 }
 
-// Returns the Super Flush Rush payout multiplier based on length of straight flush
-export function calculateSuperFlushRushPayout(straightFlushCards: number, payoutConfig: PayoutConfig): number {
-  if (straightFlushCards >= 7) return payoutConfig.superFlushRush.sevenCardStraight
-  if (straightFlushCards >= 6) return payoutConfig.superFlushRush.sixCardStraight
-  if (straightFlushCards >= 5) return payoutConfig.superFlushRush.fiveCardStraight
-  if (straightFlushCards >= 4) return payoutConfig.superFlushRush.fourCardStraight
-  if (straightFlushCards >= 3) return payoutConfig.superFlushRush.threeCardStraight
-  return 0
+// Returns the key identifying a flush in a StrategyTable, e.g. '14-9-2'
+// Assumes flush is sorted by descending rank
+export function flushKey(flush: Card[]): string {
+  return flush.map(card => card.rank).join('-')
+}
+
+// Returns true if the flush's ranks are at least minRanks, compared from the highest card down
+// Assumes flush is sorted by descending rank
+export function meetsMinRanks(flush: Card[], minRanks: number[]): boolean {
+  for (let i = 0; i < minRanks.length; i++) {
+    if (i >= flush.length) return false
+    if (flush[i].rank !== minRanks[i]) return flush[i].rank > minRanks[i]
+  }
+  return true
+}
+
+// Returns the Play wager the strategy makes with this flush, or 0 if the player folds
+// Assumes flush is sorted by descending rank
+export function getPlayWager(
+  flush: Card[],
+  strategy: PlayerStrategy,
+  anteAmount: number,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): number {
+  const maxPlayWager = getMaxPlayWager(flush.length, anteAmount, gameRules)
+  if (strategy.type === 'table') {
+    const multiple = strategy.table[flushKey(flush)] ?? 0
+    return Math.min(multiple * anteAmount, maxPlayWager)
+  }
+  const rule = strategy.rules.find(r => r.flushLength === flush.length)
+  if (!rule || !meetsMinRanks(flush, rule.minRanks ?? [])) return 0
+  return typeof rule.playMultiple === 'number' ? Math.min(rule.playMultiple * anteAmount, maxPlayWager) : maxPlayWager
+}
+
+// Settles a bonus bet against its paytable, records the payline it hit and returns the net result
+// weight lets exact analysis record a probability instead of a single hand
+export function recordPaytableBet(totals: BetResults, paytable: Paytable, feature: PaytableFeature, bet: number, weight = 1): number {
+  const line = matchPaytableLine(paytable, feature)
+  if (line) {
+    totals.recordWin(bet, bet * line.payout, weight)
+    totals.recordPayline(paytableLineLabel(paytable, line), line.payout, bet * line.payout, weight)
+    return bet * line.payout
+  }
+  totals.recordLoss(bet, weight)
+  totals.recordPayline(NO_WIN_PAYLINE, -1, -bet, weight)
+  return -bet
 }
 
 export interface SimulationSummary {
   results: SimulationResult[]
   handDistribution: HandDistributionStats
+  baseGame: BaseGameBreakdown
+  comparisons?: PayoutComparison[] // One per comparison paytable, when any were requested
+  partial?: boolean // The run was cancelled; the results cover only the hands played before it stopped
+  precision?: PrecisionOutcome // How a run to target precision ended
+  handRecords?: HandRecord[] // The traced hands, when a trace was requested
+  rng?: RunRng // The generator and seed that dealt the hands
+}
+
+// Which hands a run records in full: every Nth hand of the run from the first, until maxHands are
+// recorded. Sampling by position rather than at random leaves the deal of every hand unchanged.
+export interface HandTraceOptions {
+  maxHands: number
+  every?: number // Defaults to 1, recording the first maxHands hands
+}
+
+// How one bet on a traced hand settled
+export interface BetSettlement {
+  betType: string // 'Ante', 'Play', or a bonus bet type
+  wager: number
+  net: number
+  payline?: string // Paytable line hit by a bonus bet, or NO_WIN_PAYLINE
+}
+
+// Everything needed to audit one simulated hand
+export interface HandRecord {
+  hand: number // Index of the hand in the whole run, however it was split between workers
+  playerCards: Card[] // Sorted by suit, then rank
+  dealerCards: Card[]
+  playerFlush: Card[] // Best flush, sorted by descending rank
+  dealerFlush: Card[]
+  dealerQualified: boolean
+  playWager: number // 0 when the player folds
+  outcome?: BaseGameOutcome // How the played hand resolved against the dealer; absent on a fold
+  bets: BetSettlement[] // Ante, Play (when played), then the bonus bets
+}
+
+// Largest standard error of expectedReturn, in percentage points, to reach for each bet type
+export type PrecisionTargets = { [betType: string]: number }
+
+export interface PrecisionOutcome {
+  targets: PrecisionTargets
+  met: boolean // Every target was met before the hand cap
+  hands: number // Hands played
+  batches: number // Batches merged into the results
+}
+
+// Running totals of a simulation in progress, reported as it goes so convergence can be watched
+export interface SimulationSnapshot {
+  hands: number // Hands played so far
+  results: SimulationResult[]
+}
+
+// The bonus bets and the paytable of a PayoutConfig each one is settled with
+export const BONUS_BETS: { betType: string; paytable: keyof PayoutConfig }[] = [
+  { betType: 'Flush Rush Bonus', paytable: 'flushRush' },
+  { betType: 'Super Flush Rush Bonus', paytable: 'superFlushRush' }
+]
+
+// A payout configuration to score the same hands against, alongside the current one
+export interface PayoutComparisonConfig {
+  name: string
+  payoutConfig: PayoutConfig
+}
+
+// Per-hand difference between a bonus bet's net under a comparison paytable and under the current
+// one. Both are scored on the same cards (common random numbers), so the paired difference has a
+// far smaller error than the difference of two independent runs.
+export interface PairedDifference {
+  betType: string
+  hands: number
+  sumDifference: number
+  sumDifferenceSquared: number
+  difference: number // Comparison return minus current return, in percentage points
+  standardError: number
+  confidenceInterval95: ConfidenceInterval
+}
+
+export type PairedDifferenceTally = Pick<PairedDifference, 'betType' | 'hands' | 'sumDifference' | 'sumDifferenceSquared'>
+
+export interface PayoutComparison {
+  name: string
+  results: SimulationResult[] // Bonus bet results under the comparison paytables
+  differences: PairedDifference[]
+}
+
+// A 3-card flush is at least 4-high (4-3-2)
+export const THREE_CARD_FLUSH_HIGH_CARDS = [4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]
+
+export type ThreeCardFlushTally = Pick<ThreeCardFlushStats, 'highCard' | 'hands' | 'dealerQualified' | 'playNet'>
+
+// Returns empty 3-card flush tallies for every possible high card
+export function createThreeCardFlushTallies(): ThreeCardFlushTally[] {
+  return THREE_CARD_FLUSH_HIGH_CARDS.map(highCard => ({ highCard, hands: 0, dealerQualified: 0, playNet: 0 }))
+}
+
+// Adds the tallies of another run (e.g. another worker) into the totals
+export function mergeThreeCardFlushTallies(totals: ThreeCardFlushTally[], other: ThreeCardFlushTally[]) {
+  for (const tally of other) {
+    const total = totals.find(t => t.highCard === tally.highCard)
+    if (!total) continue
+    total.hands += tally.hands
+    total.dealerQualified += tally.dealerQualified
+    total.playNet += tally.playNet
+  }
+}
+
+// Converts 3-card flush tallies into the statistics reported to the UI
+export function buildThreeCardFlushStats(tallies: ThreeCardFlushTally[], totalHands: number): ThreeCardFlushStats[] {
+  return tallies.map(tally => ({
+    highCard: tally.highCard,
+    hands: tally.hands,
+    dealerQualified: tally.dealerQualified,
+    playNet: tally.playNet,
+    frequency: totalHands > 0 ? (tally.hands / totalHands) * 100 : 0,
+    dealerQualificationRate: tally.hands > 0 ? (tally.dealerQualified / tally.hands) * 100 : 0,
+    playEV: tally.hands > 0 ? tally.playNet / tally.hands : 0,
+    foldEV: -1
+  }))
+}
+
+// 7 cards in 4 suits always hold at least 2 of one suit, so every best flush has 2 to 7 cards
+export const FLUSH_LENGTHS = [2, 3, 4, 5, 6, 7]
+
+export type FlushShapeTally = Pick<FlushShapeStats, 'length' | 'highCard' | 'player' | 'dealer'>
+
+// Returns empty tallies for every flush shape, by length and then high card. An n-card flush is
+// at least (n + 1)-high.
+export function createFlushShapeTallies(): FlushShapeTally[] {
+  return FLUSH_LENGTHS.flatMap(length => Array.from({ length: 14 - length }, (_, i) => ({ length, highCard: length + 1 + i, player: 0, dealer: 0 })))
+}
+
+// Index of a flush shape in the tallies above
+function flushShapeIndex(flush: Card[]): number {
+  let index = 0
+  for (let length = FLUSH_LENGTHS[0]; length < flush.length; length++) index += 14 - length
+  return index + flush[0].rank - flush.length - 1
+}
+
+export function mergeFlushShapeTallies(totals: FlushShapeTally[], other: FlushShapeTally[]) {
+  for (const tally of other) {
+    const total = totals.find(t => t.length === tally.length && t.highCard === tally.highCard)
+    if (!total) continue
+    total.player += tally.player
+    total.dealer += tally.dealer
+  }
+}
+
+export function buildFlushShapeStats(tallies: FlushShapeTally[], totalHands: number): FlushShapeStats[] {
+  return tallies.map(tally => ({
+    ...tally,
+    playerFrequency: totalHands > 0 ? (tally.player / totalHands) * 100 : 0,
+    dealerFrequency: totalHands > 0 ? (tally.dealer / totalHands) * 100 : 0
+  }))
+}
+
+export type FlushOutcomeTally = Omit<FlushOutcomeStats, 'frequency'>
+
+// Returns empty tallies for every pair of flush lengths, by player length and then dealer length
+export function createFlushOutcomeTallies(): FlushOutcomeTally[] {
+  return FLUSH_LENGTHS.flatMap(playerLength => FLUSH_LENGTHS.map(dealerLength => ({
+    playerLength, dealerLength, hands: 0, playerWins: 0, dealerWins: 0, push: 0, dealerNotQualified: 0
+  })))
+}
+
+export function mergeFlushOutcomeTallies(totals: FlushOutcomeTally[], other: FlushOutcomeTally[]) {
+  for (const tally of other) {
+    const total = totals.find(t => t.playerLength === tally.playerLength && t.dealerLength === tally.dealerLength)
+    if (!total) continue
+    total.hands += tally.hands
+    total.playerWins += tally.playerWins
+    total.dealerWins += tally.dealerWins
+    total.push += tally.push
+    total.dealerNotQualified += tally.dealerNotQualified
+  }
+}
+
+export function buildFlushOutcomeStats(tallies: FlushOutcomeTally[], totalHands: number): FlushOutcomeStats[] {
+  return tallies.map(tally => ({ ...tally, frequency: totalHands > 0 ? (tally.hands / totalHands) * 100 : 0 }))
+}
+
+export type BaseGameOutcome = 'dealerNotQualified' | 'playerWins' | 'dealerWins' | 'push'
+
+// Returns how a played hand resolves against the dealer
+// Assumes flushes are sorted by descending rank
+export function baseGameOutcome(playerFlush: Card[], dealerFlush: Card[], gameRules: GameRulesConfig = DEFAULT_GAME_RULES): BaseGameOutcome {
+  if (!dealerQualifies(dealerFlush, gameRules)) return 'dealerNotQualified'
+  const comparison = compareFlushes(playerFlush, dealerFlush)
+  if (comparison > 0) return 'playerWins'
+  if (comparison < 0) return 'dealerWins'
+  return 'push'
+}
+
+// Returns the net amount a wager settles for
+function settle(settlement: Settlement, amount: number): number {
+  if (settlement === 'win') return amount
+  if (settlement === 'lose') return -amount
+  return 0
+}
+
+// Returns the base-game net result of a played hand with the given outcome
+export function settleBaseGame(
+  outcome: BaseGameOutcome,
+  anteAmount: number,
+  playWager: number,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): number {
+  switch (outcome) {
+    case 'dealerNotQualified':
+      return settle(gameRules.dealerNotQualified.ante, anteAmount) + settle(gameRules.dealerNotQualified.play, playWager)
+    case 'playerWins':
+      return anteAmount + playWager
+    case 'dealerWins':
+      return -(anteAmount + playWager)
+    case 'push':
+      return settle(gameRules.tie.ante, anteAmount) + settle(gameRules.tie.play, playWager)
+  }
+}
+
+// Returns the base-game net outcome of playing the hand, in the same units as the wagers
+// Assumes flushes are sorted by descending rank
+export function baseGameNet(
+  playerFlush: Card[],
+  dealerFlush: Card[],
+  anteAmount: number,
+  playWager: number,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): number {
+  return settleBaseGame(baseGameOutcome(playerFlush, dealerFlush, gameRules), anteAmount, playWager, gameRules)
+}
+
+// Returns the Ante and Play nets of a played hand separately, as settleBaseGame would total them
+export function settleBaseGameWagers(
+  outcome: BaseGameOutcome,
+  anteAmount: number,
+  playWager: number,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): { ante: number; play: number } {
+  switch (outcome) {
+    case 'dealerNotQualified':
+      return { ante: settle(gameRules.dealerNotQualified.ante, anteAmount), play: settle(gameRules.dealerNotQualified.play, playWager) }
+    case 'playerWins':
+      return { ante: anteAmount, play: playWager }
+    case 'dealerWins':
+      return { ante: -anteAmount, play: -playWager }
+    case 'push':
+      return { ante: settle(gameRules.tie.ante, anteAmount), play: settle(gameRules.tie.play, playWager) }
+  }
+}
+
+export const BASE_GAME_RESOLUTIONS: BaseGameResolution[] = ['fold', 'dealerNotQualified', 'playerWins', 'dealerWins', 'push']
+
+export type BaseGameOutcomeTally = Pick<BaseGameOutcomeStats, 'outcome' | 'hands' | 'anteNet' | 'playNet' | 'playWagered'>
+
+// Returns empty tallies for every way a base game can end
+export function createBaseGameOutcomeTallies(): BaseGameOutcomeTally[] {
+  return BASE_GAME_RESOLUTIONS.map(outcome => ({ outcome, hands: 0, anteNet: 0, playNet: 0, playWagered: 0 }))
+}
+
+export function mergeBaseGameOutcomeTallies(totals: BaseGameOutcomeTally[], other: BaseGameOutcomeTally[]) {
+  for (const tally of other) {
+    const total = totals.find(t => t.outcome === tally.outcome)
+    if (!total) continue
+    total.hands += tally.hands
+    total.anteNet += tally.anteNet
+    total.playNet += tally.playNet
+    total.playWagered += tally.playWagered
+  }
+}
+
+// Adds one base-game hand to the outcome tallies and the separate Ante and Play totals. A folded
+// hand loses its Ante and has no Play wager.
+export function recordBaseGameWagers(
+  outcomes: BaseGameOutcomeTally[],
+  ante: BetResults,
+  play: BetResults,
+  outcome: BaseGameResolution,
+  anteAmount: number,
+  playWager: number,
+  gameRules: GameRulesConfig,
+  weight = 1
+) {
+  const nets = outcome === 'fold' ? { ante: -anteAmount, play: 0 } : settleBaseGameWagers(outcome, anteAmount, playWager, gameRules)
+  const tally = outcomes[BASE_GAME_RESOLUTIONS.indexOf(outcome)]
+  tally.hands += weight
+  tally.anteNet += nets.ante * weight
+  tally.playNet += nets.play * weight
+  tally.playWagered += playWager * weight
+  ante.recordOutcome(anteAmount, nets.ante, weight)
+  // The Play is decided on, so none of it is an initial wager
+  if (outcome !== 'fold') play.recordOutcome(playWager, nets.play, weight, 0)
+}
+
+export function buildBaseGameBreakdown(
+  outcomes: BaseGameOutcomeTally[],
+  dealerQualified: number,
+  wagers: SimulationResult[],
+  totalHands: number
+): BaseGameBreakdown {
+  const totalWagered = wagers.reduce((sum, wager) => sum + wager.totalBet, 0)
+  return {
+    dealerQualified,
+    dealerQualificationRate: totalHands > 0 ? (dealerQualified / totalHands) * 100 : 0,
+    outcomes: outcomes.map(tally => ({
+      ...tally,
+      frequency: totalHands > 0 ? (tally.hands / totalHands) * 100 : 0,
+      returnContribution: totalWagered > 0 ? ((tally.anteNet + tally.playNet) / totalWagered) * 100 : 0
+    })),
+    wagers
+  }
+}
+
+// Records how every bet on a hand settled. Only called for traced hands, so it recomputes what the
+// simulation loop tallies rather than slowing the loop down.
+function traceHand(
+  hand: number,
+  playerCards: Card[],
+  dealerCards: Card[],
+  playWager: number,
+  payoutConfig: PayoutConfig,
+  anteAmount: number,
+  bonusBet: number,
+  gameRules: GameRulesConfig
+): HandRecord {
+  const playerFlush = findBestFlush(playerCards)
+  const dealerFlush = findBestFlush(dealerCards)
+  const record: HandRecord = {
+    hand,
+    playerCards,
+    dealerCards,
+    playerFlush,
+    dealerFlush,
+    dealerQualified: dealerQualifies(dealerFlush, gameRules),
+    playWager,
+    bets: []
+  }
+  if (playWager === 0) {
+    record.bets.push({ betType: 'Ante', wager: anteAmount, net: -anteAmount })
+  } else {
+    record.outcome = baseGameOutcome(playerFlush, dealerFlush, gameRules)
+    const nets = settleBaseGameWagers(record.outcome, anteAmount, playWager, gameRules)
+    record.bets.push({ betType: 'Ante', wager: anteAmount, net: nets.ante }, { betType: 'Play', wager: playWager, net: nets.play })
+  }
+  const features = { flush: flushFeature(playerFlush), straightFlush: findBestStraightFlush(playerCards) }
+  for (const { betType, paytable } of BONUS_BETS) {
+    const table = payoutConfig[paytable]
+    const line = matchPaytableLine(table, features[table.hand])
+    record.bets.push(line
+      ? { betType, wager: bonusBet, net: bonusBet * line.payout, payline: paytableLineLabel(table, line) }
+      : { betType, wager: bonusBet, net: -bonusBet, payline: NO_WIN_PAYLINE })
+  }
+  return record
+}
+
+// Holds a running simulation between hands until resumed. Plain callbacks rather than messages,
+// so the worker protocol and the pool can forward it to workers.
+export interface PauseController {
+  readonly paused: boolean
+  pause(): void
+  resume(): void
+  // Resolves once the run is resumed, or at once if it is not paused or signal has aborted
+  whenResumed(signal?: AbortSignal): Promise<void>
+  // Calls listener with the new state on every change; returns a function that unsubscribes
+  subscribe(listener: (paused: boolean) => void): () => void
+}
+
+export function createPauseController(): PauseController {
+  let paused = false
+  const listeners = new Set<(paused: boolean) => void>()
+  const setPaused = (value: boolean) => {
+    if (paused === value) return
+    paused = value
+    listeners.forEach(listener => listener(paused))
+  }
+  const subscribe = (listener: (paused: boolean) => void) => {
+    listeners.add(listener)
+    return () => { listeners.delete(listener) }
+  }
+  return {
+    get paused() { return paused },
+    pause: () => setPaused(true),
+    resume: () => setPaused(false),
+    whenResumed(signal) {
+      if (!paused || signal?.aborted) return Promise.resolve()
+      return new Promise(resolve => {
+        const done = () => {
+          unsubscribe()
+          signal?.removeEventListener('abort', done)
+          resolve()
+        }
+        const unsubscribe = subscribe(value => { if (!value) done() })
+        signal?.addEventListener('abort', done)
+      })
+    },
+    subscribe
+  }
 }
 
+// Longest stretch of hands between yields to the event loop while a run can be cancelled or paused
+const CONTROL_CHECK_INTERVAL = 20000
+
+// Optional parts of a run, all off by default
+export interface SimulationOptions {
+  comparisons?: PayoutComparisonConfig[] // Paytables to settle every hand under as well
+  signal?: AbortSignal // Aborting stops the run and returns the hands played so far, marked partial
+  pause?: PauseController
+  onSnapshot?: (snapshot: SimulationSnapshot) => void // Running totals, reported with progress
+  trace?: HandTraceOptions
+  firstHand?: number // Index of the first hand in the whole run when this is a share of it
+}
+
+// rng is either one stream for every hand, or a HandRng giving each hand its own values by its
+// index in the whole run, which for a share of a larger run starts at options.firstHand
 export async function performSimulation(
   numHands: number,
   payoutConfig: PayoutConfig,
-  minThreeCardFlushRank: number,
-  rng: RNG,
-  onProgress?: (progress: number) => void
+  strategy: PlayerStrategy,
+  rng: RNG | HandRng,
+  onProgress?: (progress: number) => void,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES,
+  options: SimulationOptions = {}
 ): Promise<SimulationSummary> {
+  const { comparisons = [], signal, pause, onSnapshot, trace, firstHand = 0 } = options
   const anteAmount = 1
-  const flushRushBet = 1
-  const superFlushRushBet = 1
+  const bonusBet = 1
   const betTotals: { [key: string]: BetResults } = {
     'Base Game (Ante + Play)': new BetResults(),
     'Flush Rush Bonus': new BetResults(),
@@ -292,95 +947,351 @@ export async function performSimulation(
   }
   let handsAboveMinimum = 0
   let handsBelowMinimum = 0
+  const threeCardFlushes = createThreeCardFlushTallies()
+  const flushShapes = createFlushShapeTallies()
+  const flushOutcomes = createFlushOutcomeTallies()
+  const baseGameOutcomes = createBaseGameOutcomeTallies()
+  const wagerTotals: { [key: string]: BetResults } = { Ante: new BetResults(), Play: new BetResults() }
+  let dealerQualified = 0
+  const comparisonTotals = comparisons.map(() => {
+    const totals: { [key: string]: BetResults } = {}
+    for (const { betType } of BONUS_BETS) totals[betType] = new BetResults()
+    return totals
+  })
+  const comparisonDifferences = comparisons.map(() => createPairedDifferenceTallies())
+  const handRecords: HandRecord[] = []
+  const traceEvery = Math.max(1, Math.floor(trace?.every ?? 1))
 
   const deck = createDeck()
   const updateFrequency = Math.max(1, Math.floor(numHands / 100))
+  // Cancel and pause requests only arrive while the loop yields, so yield more often when either is possible
+  const yieldFrequency = signal || pause ? Math.min(updateFrequency, CONTROL_CHECK_INTERVAL) : updateFrequency
 
+  let handsPlayed = 0
   for (let hand = 0; hand < numHands; hand++) {
-    const shuffledDeck = shuffleDeckWithRng(deck, rng)
+    if (signal?.aborted) break
+    const shuffledDeck = shuffleDeckWithRng(deck, typeof rng === 'function' ? rng : rng.forHand(firstHand + hand))
     const playerHand = sortHandBySuitThenRank(shuffledDeck.slice(0, 7))
     const dealerHand = sortHandBySuitThenRank(shuffledDeck.slice(7, 14))
     const playerFlush = findBestFlush(playerHand)
     const dealerFlush = findBestFlush(dealerHand)
 
-    if (playerShouldFold(playerFlush, minThreeCardFlushRank)) {
+    flushShapes[flushShapeIndex(playerFlush)].player++
+    flushShapes[flushShapeIndex(dealerFlush)].dealer++
+    const outcomeTally = flushOutcomes[(playerFlush.length - FLUSH_LENGTHS[0]) * FLUSH_LENGTHS.length + dealerFlush.length - FLUSH_LENGTHS[0]]
+    outcomeTally.hands++
+    const outcome = baseGameOutcome(playerFlush, dealerFlush, gameRules)
+    if (outcome === 'dealerNotQualified') outcomeTally.dealerNotQualified++
+    else if (outcome === 'playerWins') outcomeTally.playerWins++
+    else if (outcome === 'dealerWins') outcomeTally.dealerWins++
+    else outcomeTally.push++
+    if (outcome !== 'dealerNotQualified') dealerQualified++
+
+    if (playerFlush.length === 3) {
+      const tally = threeCardFlushes.find(t => t.highCard === highCard(playerFlush))!
+      tally.hands++
+      if (outcome !== 'dealerNotQualified') tally.dealerQualified++
+      tally.playNet += settleBaseGame(outcome, anteAmount, getMaxPlayWager(3, anteAmount, gameRules), gameRules)
+    }
+
+    const playWager = getPlayWager(playerFlush, strategy, anteAmount, gameRules)
+    if (playWager === 0) {
       // Player folds
       handsBelowMinimum++
       betTotals['Base Game (Ante + Play)'].recordLoss(anteAmount)
     } else {
       // Player plays
       handsAboveMinimum++
-      const playWager = getMaxPlayWager(playerFlush.length, anteAmount)
       const totalWager = anteAmount + playWager
-
-      if (dealerQualifies(dealerFlush)) {
-        const comparison = compareFlushes(playerFlush, dealerFlush)
-        if (comparison > 0) {
-          betTotals['Base Game (Ante + Play)'].recordWin(totalWager, totalWager)
-        } else if (comparison < 0) {
-          betTotals['Base Game (Ante + Play)'].recordLoss(totalWager)
-        } else {
-          betTotals['Base Game (Ante + Play)'].recordPush(totalWager)
-        }
-      } else {
-        betTotals['Base Game (Ante + Play)'].recordWin(totalWager, anteAmount)
-      }
+      const net = settleBaseGame(outcome, anteAmount, playWager, gameRules)
+      betTotals['Base Game (Ante + Play)'].recordOutcome(totalWager, net, 1, anteAmount)
     }
+    recordBaseGameWagers(baseGameOutcomes, wagerTotals.Ante, wagerTotals.Play, playWager === 0 ? 'fold' : outcome, anteAmount, playWager, gameRules)
 
-    const flushRushMultiplier = calculateFlushRushPayout(playerFlush.length, payoutConfig)
-    const flushRushPayout = flushRushMultiplier > 0 ? flushRushBet * flushRushMultiplier : 0
-    if (flushRushPayout > 0) {
-      betTotals['Flush Rush Bonus'].recordWin(flushRushBet, flushRushPayout)
-    } else {
-      betTotals['Flush Rush Bonus'].recordLoss(flushRushBet)
-    }
+    // Each bonus paytable reads either the best flush or the best straight flush
+    const features = { flush: flushFeature(playerFlush), straightFlush: findBestStraightFlush(playerHand) }
+    const bonusNets = BONUS_BETS.map(({ betType, paytable }) => {
+      const table = payoutConfig[paytable]
+      return recordPaytableBet(betTotals[betType], table, features[table.hand], bonusBet)
+    })
 
-    const playerStraightLength = findLongestStraightFlush(playerHand)
-    const superFlushRushMultiplier = calculateSuperFlushRushPayout(playerStraightLength, payoutConfig)
-    const superFlushRushPayout = superFlushRushMultiplier > 0 ? superFlushRushBet * superFlushRushMultiplier : 0
-    if (superFlushRushPayout > 0) {
-      betTotals['Super Flush Rush Bonus'].recordWin(superFlushRushBet, superFlushRushPayout)
-    } else {
-      betTotals['Super Flush Rush Bonus'].recordLoss(superFlushRushBet)
+    // Score the same hand against every comparison paytable
+    comparisons.forEach((comparison, c) => {
+      BONUS_BETS.forEach(({ betType, paytable }, b) => {
+        const table = comparison.payoutConfig[paytable]
+        const difference = recordPaytableBet(comparisonTotals[c][betType], table, features[table.hand], bonusBet) - bonusNets[b]
+        const tally = comparisonDifferences[c][b]
+        tally.hands++
+        tally.sumDifference += difference
+        tally.sumDifferenceSquared += difference * difference
+      })
+    })
+
+    if (trace && handRecords.length < trace.maxHands && (firstHand + hand) % traceEvery === 0) {
+      handRecords.push(traceHand(firstHand + hand, playerHand, dealerHand, playWager, payoutConfig, anteAmount, bonusBet, gameRules))
     }
 
+    handsPlayed++
     if (onProgress && hand % updateFrequency === 0) {
       const progress = (hand / numHands) * 100
       onProgress(progress)
+    }
+    if (onSnapshot && hand > 0 && hand % updateFrequency === 0) {
+      onSnapshot({ hands: handsPlayed, results: buildSimulationResults(betTotals) })
+    }
+    if ((onProgress || signal || pause) && hand % yieldFrequency === 0) {
       // yield to event loop briefly
       await new Promise(resolve => setTimeout(resolve, 0))
+      if (pause?.paused) await pause.whenResumed(signal)
     }
   }
 
-  const simulationResults: SimulationResult[] = Object.keys(betTotals).map(betType => {
+  const simulationResults = buildSimulationResults(betTotals)
+
+  const handDistributionStats: HandDistributionStats = {
+    totalHands: handsPlayed,
+    aboveMinimum: handsAboveMinimum,
+    belowMinimum: handsBelowMinimum,
+    aboveMinimumPercentage: handsPlayed > 0 ? (handsAboveMinimum / handsPlayed) * 100 : 0,
+    belowMinimumPercentage: handsPlayed > 0 ? (handsBelowMinimum / handsPlayed) * 100 : 0,
+    threeCardFlushByHighCard: buildThreeCardFlushStats(threeCardFlushes, handsPlayed),
+    flushShapes: buildFlushShapeStats(flushShapes, handsPlayed),
+    flushOutcomes: buildFlushOutcomeStats(flushOutcomes, handsPlayed)
+  }
+
+  return {
+    results: simulationResults,
+    handDistribution: handDistributionStats,
+    baseGame: buildBaseGameBreakdown(baseGameOutcomes, dealerQualified, buildSimulationResults(wagerTotals), handsPlayed),
+    ...(comparisons.length > 0 && {
+      comparisons: comparisons.map((comparison, c) => ({
+        name: comparison.name,
+        results: buildSimulationResults(comparisonTotals[c]),
+        differences: buildPairedDifferences(comparisonDifferences[c])
+      }))
+    }),
+    ...(handsPlayed < numHands && { partial: true }),
+    ...(trace && { handRecords })
+  }
+}
+
+// Two-sided 95% quantile of the standard normal distribution
+const Z_95 = 1.959963984540054
+
+// Two-sided 90% quantile of the standard normal distribution, the confidence level game math
+// certificates quote the volatility index at
+export const VOLATILITY_INDEX_Z = 1.6448536269514722
+
+// Converts accumulated bet totals into the per-bet results reported to the UI
+// The standard error treats the average amount wagered per hand as fixed, so for the base game
+// (where the Play wager varies) it is the error of the mean net outcome scaled to a return.
+export function buildSimulationResults(betTotals: { [key: string]: BetResults }): SimulationResult[] {
+  return Object.keys(betTotals).map(betType => {
     const data = betTotals[betType]
-    const expectedReturn = ((data.totalWon - data.totalBet) / data.totalBet) * 100
-    const winRate = (data.handsWon / (data.handsWon + data.handsLost)) * 100
+    const hands = data.handsWon + data.handsLost + data.handsPushed
+    const expectedReturn = data.totalBet > 0 ? ((data.totalWon - data.totalBet) / data.totalBet) * 100 : 0
+    const returnPerInitialBet = data.totalInitialBet > 0 ? ((data.totalWon - data.totalBet) / data.totalInitialBet) * 100 : 0
+    const winRate = (data.handsWon + data.handsLost) > 0 ? (data.handsWon / (data.handsWon + data.handsLost)) * 100 : 0
+    const meanNet = hands > 0 ? data.sumNet / hands : 0
+    const variance = hands > 0 ? Math.max(0, data.sumNetSquared / hands - meanNet * meanNet) : 0
+    const stdDevPerHand = Math.sqrt(variance)
+    const meanBet = hands > 0 ? data.totalBet / hands : 0
+    const standardError = hands > 0 && meanBet > 0 ? (stdDevPerHand / Math.sqrt(hands) / meanBet) * 100 : 0
+    const unitBet = data.totalInitialBet > 0 ? data.totalInitialBet / hands : meanBet
+    const stdDevPerUnit = unitBet > 0 ? stdDevPerHand / unitBet : 0
+    // Paying lines from the largest payout down, with the losing line last
+    const paylines: PaylineResult[] = Object.keys(data.paylines)
+      .map(payline => {
+        const line = data.paylines[payline]
+        return {
+          payline,
+          payout: line.payout,
+          hits: line.hits,
+          net: line.net,
+          hitFrequency: hands > 0 ? (line.hits / hands) * 100 : 0,
+          returnContribution: data.totalBet > 0 ? (line.net / data.totalBet) * 100 : 0
+        }
+      })
+      .sort((a, b) => b.payout - a.payout)
     return {
       betType,
       totalBet: data.totalBet,
       totalWon: data.totalWon,
       expectedReturn,
+      totalInitialBet: data.totalInitialBet,
+      returnPerInitialBet,
+      averageBet: meanBet,
       handsWon: data.handsWon,
       handsLost: data.handsLost,
-      winRate
+      handsPushed: data.handsPushed,
+      winRate,
+      sumNet: data.sumNet,
+      sumNetSquared: data.sumNetSquared,
+      variance,
+      stdDevPerHand,
+      stdDevPerUnit,
+      volatilityIndex: VOLATILITY_INDEX_Z * stdDevPerUnit,
+      hitFrequency: hands > 0 ? (data.handsWon / hands) * 100 : 0,
+      standardError,
+      confidenceInterval95: {
+        lower: expectedReturn - Z_95 * standardError,
+        upper: expectedReturn + Z_95 * standardError
+      },
+      paylines
     }
   })
+}
 
-  const handDistributionStats: HandDistributionStats = {
-    totalHands: numHands,
-    aboveMinimum: handsAboveMinimum,
-    belowMinimum: handsBelowMinimum,
-    aboveMinimumPercentage: (handsAboveMinimum / numHands) * 100,
-    belowMinimumPercentage: (handsBelowMinimum / numHands) * 100
+export function createPairedDifferenceTallies(): PairedDifferenceTally[] {
+  return BONUS_BETS.map(({ betType }) => ({ betType, hands: 0, sumDifference: 0, sumDifferenceSquared: 0 }))
+}
+
+// Converts paired difference tallies into returns differences with confidence intervals
+// Bonus bets are 1 unit, so a mean difference per hand is also a difference in return
+export function buildPairedDifferences(tallies: PairedDifferenceTally[]): PairedDifference[] {
+  return tallies.map(tally => {
+    const mean = tally.hands > 0 ? tally.sumDifference / tally.hands : 0
+    const variance = tally.hands > 0 ? Math.max(0, tally.sumDifferenceSquared / tally.hands - mean * mean) : 0
+    const difference = mean * 100
+    const standardError = tally.hands > 0 ? (Math.sqrt(variance) / Math.sqrt(tally.hands)) * 100 : 0
+    return {
+      ...tally,
+      difference,
+      standardError,
+      confidenceInterval95: {
+        lower: difference - Z_95 * standardError,
+        upper: difference + Z_95 * standardError
+      }
+    }
+  })
+}
+
+// Combines the comparisons reported by several runs over disjoint hands
+export function mergePayoutComparisons(parts: PayoutComparison[][]): PayoutComparison[] {
+  if (parts.length === 0) return []
+  return parts[0].map((comparison, c) => {
+    const totals: { [betType: string]: BetResults } = {}
+    const tallies = createPairedDifferenceTallies()
+    for (const part of parts) {
+      for (const result of part[c].results) {
+        if (!totals[result.betType]) totals[result.betType] = new BetResults()
+        totals[result.betType].addResult(result)
+      }
+      for (const tally of tallies) {
+        const other = part[c].differences.find(d => d.betType === tally.betType)
+        if (!other) continue
+        tally.hands += other.hands
+        tally.sumDifference += other.sumDifference
+        tally.sumDifferenceSquared += other.sumDifferenceSquared
+      }
+    }
+    return { name: comparison.name, results: buildSimulationResults(totals), differences: buildPairedDifferences(tallies) }
+  })
+}
+
+// Splits a run into near-equal shares, one per worker
+export function splitHands(numHands: number, count: number): number[] {
+  const base = Math.floor(numHands / count)
+  const remainder = numHands % count
+  return Array.from({ length: count }, (_, i) => base + (i < remainder ? 1 : 0))
+}
+
+// Deals and evaluates one hand of a seeded run again from its index in the run. Hands are keyed by
+// seed and index, so neither the worker count nor the hands before it matter. Runs from the crypto
+// source cannot be replayed.
+export function replayHand(
+  seed: number | string,
+  handIndex: number,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES,
+  algorithm: Exclude<RngAlgorithm, 'crypto'> = 'philox'
+): HandRecord {
+  if (!Number.isInteger(handIndex) || handIndex < 0) throw new Error(`Hand ${handIndex} is not a hand number`)
+  const rng = createHandRng(algorithm, seedToUint32(seed))
+  const shuffledDeck = shuffleDeckWithRng(createDeck(), rng.forHand(handIndex))
+  const playerHand = sortHandBySuitThenRank(shuffledDeck.slice(0, 7))
+  const dealerHand = sortHandBySuitThenRank(shuffledDeck.slice(7, 14))
+  const playWager = getPlayWager(findBestFlush(playerHand), strategy, 1, gameRules)
+  return traceHand(handIndex, playerHand, dealerHand, playWager, payoutConfig, 1, 1, gameRules)
+}
+
+// Combines per-bet results of several runs over disjoint hands
+export function mergeSimulationResults(parts: SimulationResult[][]): SimulationResult[] {
+  const totalsMap: { [betType: string]: BetResults } = {}
+  for (const part of parts) {
+    for (const r of part) {
+      if (!totalsMap[r.betType]) totalsMap[r.betType] = new BetResults()
+      totalsMap[r.betType].addResult(r)
+    }
+  }
+  return buildSimulationResults(totalsMap)
+}
+
+// Combines the summaries of several runs over disjoint hands into one
+export function mergeSimulationSummaries(parts: SimulationSummary[]): SimulationSummary {
+  let totalHands = 0
+  let totalAbove = 0
+  let totalBelow = 0
+  const threeCardFlushes = createThreeCardFlushTallies()
+  const flushShapes = createFlushShapeTallies()
+  const flushOutcomes = createFlushOutcomeTallies()
+  const baseGameOutcomes = createBaseGameOutcomeTallies()
+  let dealerQualified = 0
+
+  for (const part of parts) {
+    totalHands += part.handDistribution.totalHands
+    totalAbove += part.handDistribution.aboveMinimum
+    totalBelow += part.handDistribution.belowMinimum
+    mergeThreeCardFlushTallies(threeCardFlushes, part.handDistribution.threeCardFlushByHighCard)
+    mergeFlushShapeTallies(flushShapes, part.handDistribution.flushShapes)
+    mergeFlushOutcomeTallies(flushOutcomes, part.handDistribution.flushOutcomes ?? [])
+    mergeBaseGameOutcomeTallies(baseGameOutcomes, part.baseGame.outcomes)
+    dealerQualified += part.baseGame.dealerQualified
+  }
+
+  const handDistribution: HandDistributionStats = {
+    totalHands,
+    aboveMinimum: totalAbove,
+    belowMinimum: totalBelow,
+    aboveMinimumPercentage: totalHands > 0 ? (totalAbove / totalHands) * 100 : 0,
+    belowMinimumPercentage: totalHands > 0 ? (totalBelow / totalHands) * 100 : 0,
+    threeCardFlushByHighCard: buildThreeCardFlushStats(threeCardFlushes, totalHands),
+    flushShapes: buildFlushShapeStats(flushShapes, totalHands),
+    flushOutcomes: buildFlushOutcomeStats(flushOutcomes, totalHands)
   }
 
+  const comparisons = parts.map(part => part.comparisons ?? [])
   return {
-    results: simulationResults,
-    handDistribution: handDistributionStats
+    results: mergeSimulationResults(parts.map(part => part.results)),
+    handDistribution,
+    baseGame: buildBaseGameBreakdown(baseGameOutcomes, dealerQualified, mergeSimulationResults(parts.map(part => part.baseGame.wagers)), totalHands),
+    ...(comparisons.some(c => c.length > 0) && { comparisons: mergePayoutComparisons(comparisons) }),
+    ...(parts.some(part => part.partial) && { partial: true }),
+    ...(parts.some(part => part.handRecords) && { handRecords: parts.flatMap(part => part.handRecords ?? []) }),
+    ...(parts[0]?.rng && { rng: parts[0].rng })
   }
 }
 
+// True when every targeted bet's standard error is at or below its target. A bet missing from the
+// results never meets its target.
+export function precisionTargetsMet(results: SimulationResult[], targets: PrecisionTargets): boolean {
+  return Object.entries(targets).every(([betType, target]) => {
+    const result = results.find(r => r.betType === betType)
+    return result !== undefined && result.standardError <= target
+  })
+}
+
+// Estimates the hands needed to meet every target from results over the given hands, since a
+// standard error shrinks with the square root of the hands
+export function estimateHandsForPrecision(results: SimulationResult[], hands: number, targets: PrecisionTargets): number {
+  return Object.entries(targets).reduce((needed, [betType, target]) => {
+    const result = results.find(r => r.betType === betType)
+    if (!result) return Infinity
+    return Math.max(needed, Math.ceil(hands * (result.standardError / target) ** 2))
+  }, hands)
+}
+
 // Returns the high card rank from the flush, or 0 if flush is empty
 // Assumes flush is sorted by descending rank
 export function highCard(flush: Card[]): number {
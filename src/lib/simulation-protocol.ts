@@ -0,0 +1,85 @@
+// simulation-protocol.ts
+// Messages exchanged with simulation workers, shared by the browser Web Worker and the Node
+// worker_threads entry point so both run a request the same way.
+
+import { createPauseController, createSimulationRng, performSimulation, resolveRunRng } from './simulation-core'
+import type {
+  GameRulesConfig,
+  HandTraceOptions,
+  PayoutComparisonConfig,
+  PayoutConfig,
+  PauseController,
+  PlayerStrategy,
+  RngAlgorithm,
+  SimulationSnapshot,
+  SimulationSummary
+} from './simulation-core'
+
+// Posted to a worker to run its share of a simulation
+export interface SimulationRequest {
+  numHands: number
+  payoutConfig: PayoutConfig
+  strategy: PlayerStrategy
+  gameRules: GameRulesConfig
+  randomSeed?: number | string
+  rngAlgorithm?: RngAlgorithm // Philox when a seed is given, crypto otherwise
+  comparisons: PayoutComparisonConfig[]
+  trace?: HandTraceOptions // Hands of this share to record
+  firstHand?: number // Index in the whole run of this share's first hand, which seeded hands are keyed by
+}
+
+// Posted to a worker while it runs a request. A cancelled run still posts 'done', with the
+// results of the hands played so far marked partial.
+export type SimulationCommand = { type: 'pause' } | { type: 'resume' } | { type: 'cancel' }
+
+// Posted back by a worker
+export type SimulationWorkerMessage =
+  | { type: 'progress'; progress: number } // 0-100 of this worker's hands
+  | ({ type: 'snapshot' } & SimulationSnapshot) // Running totals of this worker's hands
+  | ({ type: 'done' } & SimulationSummary)
+  | { type: 'error'; message: string }
+
+// Runs a request and reports progress and the outcome through post
+export async function handleSimulationRequest(
+  request: SimulationRequest,
+  post: (message: SimulationWorkerMessage) => void,
+  signal?: AbortSignal,
+  pause?: PauseController
+) {
+  const { numHands, payoutConfig, strategy, gameRules, randomSeed, rngAlgorithm, comparisons, trace, firstHand } = request
+  try {
+    const rng = resolveRunRng(randomSeed, rngAlgorithm)
+    const summary = await performSimulation(
+      numHands,
+      payoutConfig,
+      strategy,
+      createSimulationRng(rng.seed, rng.algorithm),
+      progress => post({ type: 'progress', progress }),
+      gameRules,
+      { comparisons, signal, pause, onSnapshot: snapshot => post({ type: 'snapshot', ...snapshot }), trace, firstHand }
+    )
+    post({ type: 'done', ...summary, rng })
+  } catch (err) {
+    post({ type: 'error', message: String(err) })
+  }
+}
+
+// Returns the message handler of a worker entry point: requests start a run, and commands pause,
+// resume or cancel the run in progress
+export function createSimulationWorkerHandler(post: (message: SimulationWorkerMessage) => void) {
+  let abort = new AbortController()
+  let pause = createPauseController()
+  return (message: SimulationRequest | SimulationCommand) => {
+    if (!('type' in message)) {
+      abort = new AbortController()
+      pause = createPauseController()
+      handleSimulationRequest(message, post, abort.signal, pause)
+    } else if (message.type === 'pause') {
+      pause.pause()
+    } else if (message.type === 'resume') {
+      pause.resume()
+    } else if (message.type === 'cancel') {
+      abort.abort()
+    }
+  }
+}
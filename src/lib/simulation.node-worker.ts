@@ -0,0 +1,5 @@
+// Node worker_threads counterpart of simulation.worker.ts
+import { parentPort } from 'node:worker_threads'
+import { createSimulationWorkerHandler } from './simulation-protocol'
+
+parentPort!.on('message', createSimulationWorkerHandler(message => parentPort!.postMessage(message)))
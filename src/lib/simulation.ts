@@ -1,179 +1,138 @@
 // Thin wrapper that exposes simulation API for UI and re-exports core types.
 export * from './simulation-core'
-import { performSimulation, mulberry32, stringToSeed } from './simulation-core'
-import type { PayoutConfig, SimulationSummary, RNG, SimulationResult, HandDistributionStats } from './simulation-core'
+export * from './exact-analysis'
+export * from './strategy-solver'
+export * from './paytable-presets'
+export * from './paytable-optimizer'
+export * from './simulation-protocol'
+export * from './worker-pool'
+export * from './web-worker-pool'
+export * from './rng-self-test'
+export * from './session-simulation'
+import { performSimulation, createSimulationRng, resolveRunRng } from './simulation-core'
+import { performSessionSimulation } from './session-simulation'
+import { runSimulationOnPool, runSimulationToPrecisionOnPool } from './worker-pool'
+import { createWebWorkerPool, hardwareConcurrency } from './web-worker-pool'
+import type {
+  GameRulesConfig,
+  PayoutConfig,
+  PlayerStrategy,
+  PrecisionTargets,
+  RngAlgorithm,
+  SimulationSummary
+} from './simulation-core'
+import type { SessionConfig, SessionSummary } from './session-simulation'
+import type { RunOptions, SimulationWorkerPool } from './worker-pool'
 
 // simulateHands: main-thread wrapper that builds RNG and calls shared performSimulation
 export async function simulateHands(
   numHands: number,
   payoutConfig: PayoutConfig,
-  minThreeCardFlushRank: number,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
   setProgress?: (progress: number) => void,
-  randomSeed?: number | string
+  randomSeed?: number | string,
+  options: RunOptions = {}
 ): Promise<SimulationSummary> {
-  let rng: RNG
-  if (typeof randomSeed !== 'undefined') {
-    const seed = typeof randomSeed === 'number' ? (randomSeed >>> 0) : stringToSeed(String(randomSeed))
-    rng = mulberry32(seed)
-  } else if (typeof crypto !== 'undefined' && 'getRandomValues' in (crypto as any)) {
-    rng = () => {
-      const arr = new Uint32Array(1)
-      ;(crypto as any).getRandomValues(arr)
-      return arr[0] / 4294967296
-    }
-  } else {
-    rng = Math.random
-  }
+  const { rngAlgorithm, ...simulationOptions } = options
+  const rng = resolveRunRng(randomSeed, rngAlgorithm)
+  const summary = await performSimulation(
+    numHands, payoutConfig, strategy, createSimulationRng(rng.seed, rng.algorithm), setProgress, gameRules, simulationOptions
+  )
+  return { ...summary, rng }
+}
 
-  return performSimulation(numHands, payoutConfig, minThreeCardFlushRank, rng, setProgress)
+// simulateSessions: main-thread wrapper that plays numSessions sessions (see performSessionSimulation)
+// with the generator chosen as for simulateHands; summary.rng records it with the seed
+export async function simulateSessions(
+  numSessions: number,
+  config: SessionConfig,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
+  setProgress?: (progress: number) => void,
+  randomSeed?: number | string,
+  signal?: AbortSignal,
+  rngAlgorithm?: RngAlgorithm
+): Promise<SessionSummary> {
+  const rng = resolveRunRng(randomSeed, rngAlgorithm)
+  const summary = await performSessionSimulation(
+    numSessions, config, payoutConfig, strategy, createSimulationRng(rng.seed, rng.algorithm), gameRules, setProgress, signal
+  )
+  return { ...summary, rng }
 }
 
-// runSimulationInWorker: spawn the module worker and forward progress/done messages
-export function runSimulationInWorker(
+// runSimulationInWorker: run the whole simulation on one module worker, forwarding its progress,
+// snapshots, cancellation and pauses
+export async function runSimulationInWorker(
   numHands: number,
   payoutConfig: PayoutConfig,
-  minThreeCardFlushRank: number,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
   onProgress?: (progress: number) => void,
-  randomSeed?: number | string
+  randomSeed?: number | string,
+  options: RunOptions = {}
 ): Promise<SimulationSummary> {
-  return new Promise((resolve, reject) => {
-    const worker = new Worker(new URL('./simulation.worker', import.meta.url), { type: 'module' })
-
-    worker.onmessage = (ev: MessageEvent) => {
-      const data = ev.data
-      if (!data) return
-      if (data.type === 'progress') {
-        if (onProgress) onProgress(data.progress)
-      } else if (data.type === 'done') {
-        worker.terminate()
-        resolve({ results: data.results, handDistribution: data.handDistribution })
-      } else if (data.type === 'error') {
-        worker.terminate()
-        reject(data.error)
-      }
-    }
-
-    worker.onerror = (err) => {
-      worker.terminate()
-      reject(err)
-    }
-
-    worker.postMessage({ numHands, payoutConfig, minThreeCardFlushRank, randomSeed })
-  })
+  const { comparisons = [], signal, pause, onSnapshot, trace, rngAlgorithm } = options
+  const pool = createWebWorkerPool(1)
+  try {
+    return await pool.run({ numHands, payoutConfig, strategy, gameRules, randomSeed, rngAlgorithm, comparisons, trace }, message => {
+      if (message.type === 'progress' && onProgress) onProgress(message.progress)
+      if (message.type === 'snapshot' && onSnapshot) onSnapshot({ hands: message.hands, results: message.results })
+    }, signal, pause)
+  } finally {
+    pool.terminate()
+  }
 }
 
-// Run the simulation using multiple workers in parallel and aggregate results.
-export function runSimulationInWorkers(
+// Run the simulation using multiple workers in parallel and aggregate results. Pass a pool to
+// reuse its workers (or to run on Node worker_threads); otherwise Web Workers are started for
+// this run and stopped when it ends. Aborting options.signal stops the run and resolves with the
+// partial results gathered so far; options.pause holds every worker until resumed. onSnapshot
+// receives the combined running totals as the workers report them. A trace records a sample of
+// hands in full (summary.handRecords), numbered across the whole run. rngAlgorithm picks the
+// generator (see RNG_ALGORITHMS); summary.rng records it with the seed.
+export async function runSimulationInWorkers(
   numHands: number,
   payoutConfig: PayoutConfig,
-  minThreeCardFlushRank: number,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
   onProgress?: (progress: number) => void,
   randomSeed?: number | string,
-  workerCount?: number
+  workerCount?: number,
+  pool?: SimulationWorkerPool,
+  options: RunOptions = {}
 ): Promise<SimulationSummary> {
-  return new Promise((resolve, reject) => {
-    // Determine worker count
-    const hw = typeof navigator !== 'undefined' && (navigator as any).hardwareConcurrency ? (navigator as any).hardwareConcurrency : 4
-    const count = Math.max(1, Math.min(workerCount ?? hw, numHands))
-
-    // Split hands among workers
-    const base = Math.floor(numHands / count)
-    const remainder = numHands % count
-    const handsPerWorker: number[] = Array.from({ length: count }, (_, i) => base + (i < remainder ? 1 : 0))
-
-    const workers: Worker[] = []
-    const perWorkerProgress: number[] = Array(count).fill(0)
-    const workerPromises: Promise<{ results: SimulationResult[]; handDistribution: HandDistributionStats }> [] = []
-
-    // Helper to derive per-worker seed deterministically if a seed was provided
-    const deriveSeed = (seed: string | number | undefined, idx: number) => {
-      if (typeof seed === 'undefined') return undefined
-      return stringToSeed(String(seed) + ':' + String(idx))
-    }
-
-    for (let i = 0; i < count; i++) {
-      const hands = handsPerWorker[i]
-      // spawn worker
-      const w = new Worker(new URL('./simulation.worker', import.meta.url), { type: 'module' })
-      workers.push(w)
-
-      const p = new Promise<{ results: SimulationResult[]; handDistribution: HandDistributionStats }>((res, rej) => {
-        w.onmessage = (ev: MessageEvent) => {
-          const data = ev.data
-          if (!data) return
-          if (data.type === 'progress') {
-            perWorkerProgress[i] = data.progress // 0-100 for that worker
-            // compute global weighted progress
-            const totalHands = numHands
-            const weighted = perWorkerProgress.reduce((acc, prog, idx2) => acc + (prog / 100) * handsPerWorker[idx2], 0)
-            const global = (weighted / totalHands) * 100
-            if (onProgress) onProgress(global)
-          } else if (data.type === 'done') {
-            res({ results: data.results, handDistribution: data.handDistribution })
-          } else if (data.type === 'error') {
-            rej(new Error(data.message || data.error || 'Worker error'))
-          }
-        }
-        w.onerror = (err) => {
-          rej(err)
-        }
-      })
-
-      workerPromises.push(p)
-
-      const seedForWorker = deriveSeed(randomSeed, i)
-      w.postMessage({ numHands: hands, payoutConfig, minThreeCardFlushRank, randomSeed: seedForWorker })
-    }
-
-    // When any worker fails, terminate all and reject
-    let settled = false
-    const terminateAll = () => workers.forEach(w => { try { w.terminate() } catch {} })
-
-    Promise.all(workerPromises.map(p => p.catch(e => { throw e }))).then((parts) => {
-      if (settled) return
-      settled = true
-      // aggregate results
-      const totalsMap = new Map<string, { totalBet: number; totalWon: number; handsWon: number; handsLost: number }>()
-      let totalHands = 0
-      let totalAbove = 0
-      let totalBelow = 0
-
-      for (const part of parts) {
-        for (const r of part.results) {
-          const existing = totalsMap.get(r.betType) ?? { totalBet: 0, totalWon: 0, handsWon: 0, handsLost: 0 }
-          existing.totalBet += r.totalBet
-          existing.totalWon += r.totalWon
-          existing.handsWon += r.handsWon
-          existing.handsLost += r.handsLost
-          totalsMap.set(r.betType, existing)
-        }
-        totalHands += part.handDistribution.totalHands
-        totalAbove += part.handDistribution.aboveMinimum
-        totalBelow += part.handDistribution.belowMinimum
-      }
-
-      const combinedResults: SimulationResult[] = []
-      for (const [betType, data] of totalsMap.entries()) {
-        const expectedReturn = data.totalBet > 0 ? ((data.totalWon - data.totalBet) / data.totalBet) * 100 : 0
-        const winRate = (data.handsWon + data.handsLost) > 0 ? (data.handsWon / (data.handsWon + data.handsLost)) * 100 : 0
-        combinedResults.push({ betType, totalBet: data.totalBet, totalWon: data.totalWon, expectedReturn, handsWon: data.handsWon, handsLost: data.handsLost, winRate })
-      }
-
-      const handDistribution: HandDistributionStats = {
-        totalHands,
-        aboveMinimum: totalAbove,
-        belowMinimum: totalBelow,
-        aboveMinimumPercentage: totalHands > 0 ? (totalAbove / totalHands) * 100 : 0,
-        belowMinimumPercentage: totalHands > 0 ? (totalBelow / totalHands) * 100 : 0
-      }
+  const runPool = pool ?? createWebWorkerPool(Math.max(1, Math.min(workerCount ?? hardwareConcurrency(), numHands)))
+  try {
+    return await runSimulationOnPool(runPool, numHands, payoutConfig, strategy, gameRules, onProgress, randomSeed, workerCount, options)
+  } finally {
+    // Also stops the other workers when one fails
+    if (!pool) runPool.terminate()
+  }
+}
 
-      terminateAll()
-      resolve({ results: combinedResults, handDistribution })
-    }).catch((err) => {
-      if (settled) return
-      settled = true
-      terminateAll()
-      reject(err)
-    })
-  })
+// Run batches on multiple workers until every bet in targets has a standard error at or below
+// its target (percentage points) or maxHands is reached; summary.precision reports which, and
+// how many hands it took. The pool, cancellation, pauses and snapshots work as above.
+export async function runSimulationInWorkersToPrecision(
+  targets: PrecisionTargets,
+  maxHands: number,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
+  onProgress?: (progress: number) => void,
+  randomSeed?: number | string,
+  workerCount?: number,
+  pool?: SimulationWorkerPool,
+  options: RunOptions = {}
+): Promise<SimulationSummary> {
+  const runPool = pool ?? createWebWorkerPool(Math.max(1, workerCount ?? hardwareConcurrency()))
+  try {
+    return await runSimulationToPrecisionOnPool(
+      runPool, targets, maxHands, payoutConfig, strategy, gameRules, onProgress, randomSeed, undefined, options
+    )
+  } finally {
+    if (!pool) runPool.terminate()
+  }
 }
@@ -0,0 +1,97 @@
+// strategy-solver.ts
+// Finds the Play decision that maximizes the base-game EV for every distinct player best flush,
+// using the exact outcome counts from exact-analysis.
+
+import { analyzeFlushClasses } from './exact-analysis'
+import type { FlushClassOutcome } from './exact-analysis'
+import { DEFAULT_GAME_RULES, flushKey, getMaxPlayWager, getPlayWager, settleBaseGame, thresholdStrategy } from './simulation-core'
+import type { GameRulesConfig, PlayerStrategy, Rank, StrategyTable } from './simulation-core'
+
+// The optimal decision for one player best flush
+export interface StrategyTableEntry {
+  ranks: Rank[] // Ranks of the player's best flush, descending
+  probability: number // Probability that the player's best flush is this one
+  playMultiple: number // Optimal Play wager as a multiple of the Ante, 0 = fold
+  evByMultiple: number[] // Base-game EV per hand (Ante units) for folding, 1x, 2x, 3x as allowed
+}
+
+// Base-game expectation of a strategy, per hand and in Ante units
+export interface StrategyEvaluation {
+  expectedNet: number // Expected net result per hand
+  expectedWager: number // Expected total wagered (Ante + Play) per hand
+  expectedReturn: number // expectedNet as a percentage of expectedWager
+}
+
+export interface StrategySolution {
+  table: StrategyTable
+  strategy: PlayerStrategy // The table as a strategy to feed back into the simulator
+  entries: StrategyTableEntry[]
+  optimal: StrategyEvaluation
+  baseline: StrategyEvaluation // The strategy the optimum is compared against
+  evGain: number // Extra expected net per hand (Ante units) the optimal strategy earns over the baseline
+}
+
+// Base-game EV per hand of a class when playing the given wager (0 = fold), in Ante units
+function playEV(flushClass: FlushClassOutcome, playWager: number, anteAmount: number, gameRules: GameRulesConfig): number {
+  if (playWager === 0) return -anteAmount
+  return (
+    flushClass.dealerNotQualified * settleBaseGame('dealerNotQualified', anteAmount, playWager, gameRules) +
+    flushClass.playerWins * settleBaseGame('playerWins', anteAmount, playWager, gameRules) +
+    flushClass.pushes * settleBaseGame('push', anteAmount, playWager, gameRules) +
+    flushClass.dealerWins * settleBaseGame('dealerWins', anteAmount, playWager, gameRules)
+  ) / flushClass.deals
+}
+
+// Returns the exact base-game expectation of a strategy
+export function evaluateStrategy(strategy: PlayerStrategy, gameRules: GameRulesConfig = DEFAULT_GAME_RULES): StrategyEvaluation {
+  const anteAmount = 1
+  const { classes, totalDeals } = analyzeFlushClasses(gameRules)
+  let expectedNet = 0
+  let expectedWager = 0
+  for (const flushClass of classes) {
+    const probability = flushClass.deals / totalDeals
+    const flush = flushClass.ranks.map(rank => ({ rank, suit: '♠' as const }))
+    const playWager = getPlayWager(flush, strategy, anteAmount, gameRules)
+    expectedNet += probability * playEV(flushClass, playWager, anteAmount, gameRules)
+    expectedWager += probability * (anteAmount + playWager)
+  }
+  return { expectedNet, expectedWager, expectedReturn: (expectedNet / expectedWager) * 100 }
+}
+
+// Solves for the EV-maximizing Play decision of every player best flush and compares the result
+// with a baseline strategy (by default, the minimum 3-card flush high card rule)
+export function solveOptimalStrategy(
+  baseline: PlayerStrategy = thresholdStrategy(9),
+  gameRules: GameRulesConfig = DEFAULT_GAME_RULES
+): StrategySolution {
+  const anteAmount = 1
+  const { classes, totalDeals } = analyzeFlushClasses(gameRules)
+  const table: StrategyTable = {}
+  const entries: StrategyTableEntry[] = []
+  for (const flushClass of classes) {
+    const maxMultiple = getMaxPlayWager(flushClass.ranks.length, anteAmount, gameRules) / anteAmount
+    const evByMultiple = Array.from({ length: maxMultiple + 1 }, (_, multiple) => playEV(flushClass, multiple * anteAmount, anteAmount, gameRules))
+    // Only switch to a larger wager when it is strictly better
+    const playMultiple = evByMultiple.reduce((best, ev, multiple) => (ev > evByMultiple[best] ? multiple : best), 0)
+    const flush = flushClass.ranks.map(rank => ({ rank, suit: '♠' as const }))
+    table[flushKey(flush)] = playMultiple
+    entries.push({
+      ranks: flushClass.ranks,
+      probability: flushClass.deals / totalDeals,
+      playMultiple,
+      evByMultiple
+    })
+  }
+
+  const strategy: PlayerStrategy = { type: 'table', table }
+  const optimal = evaluateStrategy(strategy, gameRules)
+  const baselineEvaluation = evaluateStrategy(baseline, gameRules)
+  return {
+    table,
+    strategy,
+    entries,
+    optimal,
+    baseline: baselineEvaluation,
+    evGain: optimal.expectedNet - baselineEvaluation.expectedNet
+  }
+}
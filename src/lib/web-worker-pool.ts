@@ -0,0 +1,21 @@
+// web-worker-pool.ts
+// Simulation workers on browser Web Workers, running simulation.worker.ts
+
+import { createWorkerPool } from './worker-pool'
+import type { SimulationWorkerPool } from './worker-pool'
+import type { SimulationWorkerMessage } from './simulation-protocol'
+
+export function hardwareConcurrency(): number {
+  return typeof navigator !== 'undefined' && (navigator as any).hardwareConcurrency ? (navigator as any).hardwareConcurrency : 4
+}
+
+export function createWebWorkerPool(size = hardwareConcurrency()): SimulationWorkerPool {
+  return createWorkerPool(size, (onMessage, onError) => {
+    const worker = new Worker(new URL('./simulation.worker', import.meta.url), { type: 'module' })
+    worker.onmessage = (ev: MessageEvent<SimulationWorkerMessage>) => {
+      if (ev.data) onMessage(ev.data)
+    }
+    worker.onerror = (ev) => onError(new Error(ev.message || 'Worker error'))
+    return worker
+  })
+}
@@ -0,0 +1,364 @@
+// worker-pool.ts
+// A pool of simulation workers speaking the simulation-protocol messages, independent of the
+// platform's worker API. web-worker-pool.ts and node-worker-pool.ts supply the workers; the
+// multi-worker run below splits hands and merges results the same way on both.
+
+import {
+  estimateHandsForPrecision,
+  mergeSimulationResults,
+  mergeSimulationSummaries,
+  precisionTargetsMet,
+  resolveRunRng,
+  splitHands
+} from './simulation-core'
+import type {
+  GameRulesConfig,
+  HandTraceOptions,
+  PauseController,
+  PayoutConfig,
+  PlayerStrategy,
+  PrecisionTargets,
+  RngAlgorithm,
+  SimulationOptions,
+  SimulationSnapshot,
+  SimulationSummary
+} from './simulation-core'
+import type { SimulationCommand, SimulationRequest, SimulationWorkerMessage } from './simulation-protocol'
+
+// Optional parts of a run split between workers: those of performSimulation except firstHand,
+// which the split sets, plus the generator to deal with (see RNG_ALGORITHMS)
+export interface RunOptions extends Omit<SimulationOptions, 'firstHand'> {
+  rngAlgorithm?: RngAlgorithm
+}
+
+// One platform worker running the simulation protocol
+export interface WorkerPort {
+  postMessage(message: SimulationRequest | SimulationCommand): void
+  terminate(): void
+}
+
+// Starts a worker that reports its messages and failures to the given listeners
+export type SpawnWorker = (
+  onMessage: (message: SimulationWorkerMessage) => void,
+  onError: (error: Error) => void
+) => WorkerPort
+
+export interface SimulationWorkerPool {
+  readonly size: number // Most workers run at once
+  // Runs a request on an idle worker, starting one if fewer than size are running, or once one
+  // frees up. onMessage sees every message the worker posts for the request. Aborting signal
+  // cancels the run, which then resolves with partial results, or rejects with the abort reason
+  // if it had not started; pause holds and resumes it.
+  run(
+    request: SimulationRequest,
+    onMessage?: (message: SimulationWorkerMessage) => void,
+    signal?: AbortSignal,
+    pause?: PauseController
+  ): Promise<SimulationSummary>
+  // Stops every worker; requests still running or queued are rejected
+  terminate(): void
+}
+
+interface PoolJob {
+  request: SimulationRequest
+  onMessage?: (message: SimulationWorkerMessage) => void
+  signal?: AbortSignal
+  pause?: PauseController
+  resolve: (summary: SimulationSummary) => void
+  reject: (error: Error) => void
+  detach?: () => void // Stops forwarding cancel and pause to the worker
+}
+
+interface PoolWorker {
+  port: WorkerPort
+  job?: PoolJob
+}
+
+export function createWorkerPool(size: number, spawn: SpawnWorker): SimulationWorkerPool {
+  const workers: PoolWorker[] = []
+  const queue: PoolJob[] = []
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let worker = workers.find(w => !w.job)
+      if (!worker && workers.length < size) worker = start()
+      if (!worker) return
+      const job = queue.shift()!
+      worker.job = job
+      worker.port.postMessage(job.request)
+      attach(worker.port, job)
+    }
+  }
+
+  // Forwards cancel and pause to the worker running the job
+  const attach = (port: WorkerPort, job: PoolJob) => {
+    const { signal, pause } = job
+    const cancel = () => port.postMessage({ type: 'cancel' })
+    signal?.addEventListener('abort', cancel)
+    const unsubscribe = pause?.subscribe(paused => port.postMessage({ type: paused ? 'pause' : 'resume' }))
+    if (pause?.paused) port.postMessage({ type: 'pause' })
+    job.detach = () => {
+      signal?.removeEventListener('abort', cancel)
+      unsubscribe?.()
+    }
+  }
+
+  const finish = (worker: PoolWorker) => {
+    worker.job?.detach?.()
+    worker.job = undefined
+    dispatch()
+  }
+
+  const handleMessage = (worker: PoolWorker, message: SimulationWorkerMessage) => {
+    const job = worker.job
+    if (!job) return
+    job.onMessage?.(message)
+    if (message.type === 'done') {
+      finish(worker)
+      const { type, ...summary } = message
+      job.resolve(summary)
+    } else if (message.type === 'error') {
+      finish(worker)
+      job.reject(new Error(message.message))
+    }
+  }
+
+  // A crashed worker is dropped; its request fails and the rest of the queue carries on
+  const handleError = (worker: PoolWorker, error: Error) => {
+    const index = workers.indexOf(worker)
+    if (index < 0) return
+    workers.splice(index, 1)
+    worker.port.terminate()
+    worker.job?.detach?.()
+    worker.job?.reject(error)
+    dispatch()
+  }
+
+  function start(): PoolWorker {
+    let worker: PoolWorker
+    const port = spawn(message => handleMessage(worker, message), error => handleError(worker, error))
+    worker = { port }
+    workers.push(worker)
+    return worker
+  }
+
+  return {
+    size,
+    run(request, onMessage, signal, pause) {
+      return new Promise<SimulationSummary>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason)
+        // Cancelling a request that has not started drops it from the queue
+        const dequeue = () => {
+          const index = queue.indexOf(job)
+          if (index < 0) return
+          queue.splice(index, 1)
+          reject(signal!.reason)
+        }
+        const settle = <T>(callback: (value: T) => void) => (value: T) => {
+          signal?.removeEventListener('abort', dequeue)
+          callback(value)
+        }
+        const job: PoolJob = { request, onMessage, signal, pause, resolve: settle(resolve), reject: settle(reject) }
+        signal?.addEventListener('abort', dequeue, { once: true })
+        queue.push(job)
+        dispatch()
+      })
+    },
+    terminate() {
+      const error = new Error('Simulation workers were terminated')
+      for (const worker of workers.splice(0)) {
+        worker.port.terminate()
+        worker.job?.detach?.()
+        worker.job?.reject(error)
+      }
+      for (const job of queue.splice(0)) job.reject(error)
+    }
+  }
+}
+
+// How many hands each share of a run records, so that together they record the first
+// trace.maxHands hands of the run whose index is a multiple of trace.every
+function splitTrace(trace: HandTraceOptions, handsPerShare: number[]): number[] {
+  const every = Math.max(1, Math.floor(trace.every ?? 1))
+  let remaining = trace.maxHands
+  let firstHand = 0
+  return handsPerShare.map(hands => {
+    // Multiples of every in [firstHand, firstHand + hands)
+    const inShare = Math.ceil((firstHand + hands) / every) - Math.ceil(firstHand / every)
+    const traced = Math.max(0, Math.min(remaining, inShare))
+    remaining -= traced
+    firstHand += hands
+    return traced
+  })
+}
+
+// Runs a simulation split across workers from the pool and aggregates their results. Each share
+// knows where it starts in the run, and seeded hands are keyed by their index in the run, so a
+// seed gives the same totals on any number of workers. Cancelling returns the merged results of
+// the hands played so far, marked partial. onSnapshot receives the running totals of all workers
+// combined whenever one of them reports. A trace records the same hands of the run however it is
+// split: each share records the traced hands in its range until the run's first trace.maxHands are
+// covered. The generator is settled before the split, so every share deals from the same algorithm and seed.
+export async function runSimulationOnPool(
+  pool: SimulationWorkerPool,
+  numHands: number,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
+  onProgress?: (progress: number) => void,
+  randomSeed?: number | string,
+  workerCount?: number,
+  options: RunOptions = {}
+): Promise<SimulationSummary> {
+  const { comparisons = [], signal, pause, onSnapshot, trace, rngAlgorithm } = options
+  const count = Math.max(1, Math.min(workerCount ?? pool.size, numHands))
+  const handsPerWorker = splitHands(numHands, count)
+  const tracedPerWorker = trace ? splitTrace(trace, handsPerWorker) : []
+  const perWorkerProgress: number[] = Array(count).fill(0)
+  const perWorkerSnapshot: (SimulationSnapshot | undefined)[] = Array(count).fill(undefined)
+
+  const reportSnapshot = () => {
+    const snapshots = perWorkerSnapshot.filter((snapshot): snapshot is SimulationSnapshot => snapshot !== undefined)
+    onSnapshot!({
+      hands: snapshots.reduce((sum, snapshot) => sum + snapshot.hands, 0),
+      results: mergeSimulationResults(snapshots.map(snapshot => snapshot.results))
+    })
+  }
+
+  const rng = resolveRunRng(randomSeed, rngAlgorithm)
+  let firstHand = 0
+  const parts = await Promise.all(handsPerWorker.map((hands, i) => {
+    const request: SimulationRequest = {
+      numHands: hands,
+      payoutConfig,
+      strategy,
+      gameRules,
+      randomSeed: rng.seed,
+      rngAlgorithm: rng.algorithm,
+      comparisons,
+      firstHand
+    }
+    if (trace) request.trace = { ...trace, maxHands: tracedPerWorker[i] }
+    firstHand += hands
+    return pool.run(request, message => {
+      if (message.type === 'progress') {
+        perWorkerProgress[i] = message.progress // 0-100 for that worker
+        const weighted = perWorkerProgress.reduce((acc, progress, j) => acc + (progress / 100) * handsPerWorker[j], 0)
+        if (onProgress) onProgress((weighted / numHands) * 100)
+      } else if (onSnapshot && (message.type === 'snapshot' || message.type === 'done')) {
+        // A finished worker keeps counting with its final totals
+        const hands = message.type === 'done' ? message.handDistribution.totalHands : message.hands
+        perWorkerSnapshot[i] = { hands, results: message.results }
+        reportSnapshot()
+      }
+    }, signal, pause).catch(err => {
+      // A share cancelled before it started contributes no hands
+      if (signal?.aborted && err === signal.reason) return undefined
+      throw err
+    })
+  }))
+  const played = parts.filter((part): part is SimulationSummary => part !== undefined)
+  const summary = { ...mergeSimulationSummaries(played), rng }
+  return played.length < parts.length ? { ...summary, partial: true } : summary
+}
+
+// Hands per batch of a run to target precision. Batch ends are where such a run can stop, so this
+// is part of what a seed reproduces and is fixed rather than derived from the worker count.
+export const DEFAULT_PRECISION_BATCH_HANDS = 50000
+
+// Runs batches of hands on the pool until every bet in targets has a standard error at or below
+// its target, or maxHands have been played. Batch k deals hands k * batchHands onwards of the
+// seeded run, and batches are merged and checked strictly in order, so a seed gives the same
+// stopping point and results whatever the pool size. Cancelling returns everything played so far, marked partial. A trace
+// samples every batch alike and keeps the first trace.maxHands hands recorded.
+export async function runSimulationToPrecisionOnPool(
+  pool: SimulationWorkerPool,
+  targets: PrecisionTargets,
+  maxHands: number,
+  payoutConfig: PayoutConfig,
+  strategy: PlayerStrategy,
+  gameRules: GameRulesConfig,
+  onProgress?: (progress: number) => void,
+  randomSeed?: number | string,
+  batchHands = DEFAULT_PRECISION_BATCH_HANDS,
+  options: RunOptions = {}
+): Promise<SimulationSummary> {
+  const { comparisons = [], signal, pause, onSnapshot, trace, rngAlgorithm } = options
+  // With no batch to run there would be no results to report
+  if (!Number.isInteger(maxHands) || maxHands < 1) throw new Error(`The hand cap must be a positive whole number of hands, not ${maxHands}`)
+  if (!Number.isInteger(batchHands) || batchHands < 1) throw new Error(`Batches must be a positive whole number of hands, not ${batchHands}`)
+  const rng = resolveRunRng(randomSeed, rngAlgorithm)
+  const batchCount = Math.ceil(maxHands / batchHands)
+  const batches: (SimulationSummary | undefined)[] = Array(batchCount).fill(undefined)
+  // Stops the batches in flight once the targets are met, or when the caller cancels
+  const stop = new AbortController()
+  const cancel = () => stop.abort()
+  signal?.addEventListener('abort', cancel)
+  if (signal?.aborted) cancel()
+
+  let next = 0
+  let merged: SimulationSummary | undefined
+  let mergedBatches = 0
+  let met = false
+
+  // Merges the batches that have finished in order and checks the targets after each one
+  const advance = () => {
+    while (!met && mergedBatches < batchCount && batches[mergedBatches] && !batches[mergedBatches]!.partial) {
+      const batch = batches[mergedBatches]!
+      merged = merged ? mergeSimulationSummaries([merged, batch]) : batch
+      if (merged.handRecords) merged.handRecords = merged.handRecords.slice(0, trace!.maxHands)
+      mergedBatches++
+      const hands = merged.handDistribution.totalHands
+      if (onSnapshot) onSnapshot({ hands, results: merged.results })
+      met = precisionTargetsMet(merged.results, targets)
+      if (onProgress) onProgress(met ? 100 : (hands / Math.min(maxHands, estimateHandsForPrecision(merged.results, hands, targets))) * 100)
+      if (met) stop.abort()
+    }
+  }
+
+  // Each lane keeps one worker busy with the next batch until the run stops
+  const lane = async () => {
+    while (next < batchCount && !stop.signal.aborted) {
+      const k = next++
+      const request: SimulationRequest = {
+        numHands: Math.min(batchHands, maxHands - k * batchHands),
+        payoutConfig,
+        strategy,
+        gameRules,
+        randomSeed: rng.seed,
+        rngAlgorithm: rng.algorithm,
+        comparisons,
+        trace,
+        firstHand: k * batchHands
+      }
+      try {
+        batches[k] = await pool.run(request, undefined, stop.signal, pause)
+      } catch (err) {
+        if (stop.signal.aborted && err === stop.signal.reason) return
+        stop.abort()
+        throw err
+      }
+      advance()
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(pool.size, batchCount) }, lane))
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+  }
+
+  if (!met && signal?.aborted) {
+    const played = batches.filter((batch): batch is SimulationSummary => batch !== undefined)
+    const summary = mergeSimulationSummaries(played)
+    if (summary.handRecords) summary.handRecords = summary.handRecords.slice(0, trace!.maxHands)
+    return {
+      ...summary,
+      rng,
+      partial: true,
+      precision: { targets, met: false, hands: summary.handDistribution.totalHands, batches: played.length }
+    }
+  }
+  const summary = merged!
+  return { ...summary, rng, precision: { targets, met, hands: summary.handDistribution.totalHands, batches: mergedBatches } }
+}
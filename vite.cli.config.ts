@@ -0,0 +1,28 @@
+import { defineConfig } from "vite";
+import { resolve } from 'path'
+
+const projectRoot = process.env.PROJECT_ROOT || import.meta.dirname
+
+// Bundles the headless runner and its worker_threads entry for Node
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(projectRoot, 'src')
+    }
+  },
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        cli: resolve(projectRoot, 'src/cli/cli.ts'),
+        'simulation.node-worker': resolve(projectRoot, 'src/lib/simulation.node-worker.ts')
+      },
+      output: {
+        entryFileNames: '[name].js'
+      }
+    }
+  }
+});